@@ -29,6 +29,12 @@ module.exports = {
   imports(memory, createImports, instantiateSync, binary) {
     let instance; // Imports can reference this
     const mockVM = new MockVM();
+    const mockVMImports = mockVM.getImports();
+
+    // count the system calls by id, so the tests can measure the cost of an operation
+    const systemCallCounts = new Map();
+    // keep the last arguments of each system call, so the tests can inspect them
+    const systemCallArguments = new Map();
 
     const myImports = {
       wasi_snapshot_preview1: {
@@ -37,7 +43,22 @@ module.exports = {
       },
       // put your web assembly imports here, and return the module
       env: {
-        ...mockVM.getImports()
+        ...mockVMImports,
+        invoke_system_call: (sid, retPtr, retLen, argPtr, argLen, retBytes) => {
+          systemCallCounts.set(sid, (systemCallCounts.get(sid) || 0) + 1);
+          systemCallArguments.set(
+            sid,
+            new Uint8Array(instance.exports.memory.buffer, argPtr, argLen).slice()
+          );
+          return mockVMImports.invoke_system_call(sid, retPtr, retLen, argPtr, argLen, retBytes);
+        },
+        resetSystemCallCounts: () => systemCallCounts.clear(),
+        getSystemCallCount: (sid) => systemCallCounts.get(sid) || 0,
+        getSystemCallArgumentsSize: (sid) => (systemCallArguments.get(sid) || []).length,
+        readSystemCallArguments: (sid, ptr) => {
+          const args = systemCallArguments.get(sid) || new Uint8Array(0);
+          new Uint8Array(instance.exports.memory.buffer, ptr, args.length).set(args);
+        }
       }
     };
     instance = instantiateSync(binary, createImports(myImports));
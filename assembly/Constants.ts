@@ -3,4 +3,16 @@ export namespace Constants {
   export const symbol: string = "TKN";
   export const decimals: u32 = 8;
   export const max_supply: u64 = 10000000000000000;
+  export const max_fee_bps: u32 = 1000;
+  export const max_page_size: u32 = 100;
+  export const on_flash_mint_entry_point: u32 = 0x2ddea4c0;
+  export const on_token_received_entry_point: u32 = 0xe0990dea;
+  export const on_approval_received_entry_point: u32 = 0xe29878a2;
+  export const transfer_entry_point: u32 = 0x27f576ca;
+  export const balance_of_entry_point: u32 = 0x5c721497;
+  export const permit_domain: string = "permit";
+  export const transfer_domain: string = "transfer";
+  export const delegation_domain: string = "delegation";
+  export const reward_precision: u64 = 1000000000000000000;
+  export const reward_duration: u64 = 604800000;
 }
\ No newline at end of file
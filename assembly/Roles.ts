@@ -0,0 +1,5 @@
+export namespace Roles {
+  export const OWNER: u32 = 0;
+  export const MINTER: u32 = 1;
+  export const PAUSER: u32 = 2;
+}
\ No newline at end of file
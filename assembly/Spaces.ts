@@ -2,4 +2,33 @@ export namespace Spaces {
   export const SUPPLY_SPACE_ID = 0;
   export const BALANCES_SPACE_ID = 1;
   export const ALLOWANCES_SPACE_ID = 2;
+  export const ROLES_SPACE_ID = 3;
+  export const PAUSED_SPACE_ID = 4;
+  export const FROZEN_SPACE_ID = 5;
+  export const NONCES_SPACE_ID = 6;
+  export const BALANCE_CHECKPOINTS_SPACE_ID = 7;
+  export const SUPPLY_CHECKPOINTS_SPACE_ID = 8;
+  export const DELEGATES_SPACE_ID = 9;
+  export const VOTES_CHECKPOINTS_SPACE_ID = 10;
+  export const VESTINGS_SPACE_ID = 11;
+  export const FEE_CONFIG_SPACE_ID = 12;
+  export const FEE_EXEMPTIONS_SPACE_ID = 13;
+  export const METADATA_SPACE_ID = 14;
+  export const OWNERSHIP_SPACE_ID = 15;
+  export const FLASH_FEE_SPACE_ID = 16;
+  export const HOLDS_SPACE_ID = 17;
+  export const HELD_BALANCES_SPACE_ID = 18;
+  export const HOLD_ID_SPACE_ID = 19;
+  export const MINT_SIGNERS_SPACE_ID = 20;
+  export const MINT_PROPOSALS_SPACE_ID = 21;
+  export const MINT_PROPOSAL_ID_SPACE_ID = 22;
+  export const MINTER_CONFIGS_SPACE_ID = 23;
+  export const UNDERLYING_SPACE_ID = 24;
+  export const BRIDGE_VALIDATORS_SPACE_ID = 25;
+  export const BRIDGE_ATTESTATIONS_SPACE_ID = 26;
+  export const BRIDGE_OUT_ID_SPACE_ID = 27;
+  export const STAKING_SPACE_ID = 28;
+  export const STAKES_SPACE_ID = 29;
+  export const AIRDROP_SPACE_ID = 30;
+  export const AIRDROP_CLAIMS_SPACE_ID = 31;
 }
\ No newline at end of file
@@ -6,10 +6,13 @@ import {
   value,
   Crypto,
   SafeMath,
+  u128,
+  authority,
 } from "@koinos/sdk-as";
 import { token } from "./proto/token";
 import { Spaces } from "./Spaces";
 import { Constants } from "./Constants";
+import { Roles } from "./Roles";
 
 /**
  * Represents a Koinos example token contract.
@@ -18,7 +21,36 @@ export class Token {
   contractId: Uint8Array;
   supply: Storage.Obj<token.uint64>;
   balances: Storage.Map<Uint8Array, token.uint64>;
-  allowances: Storage.Map<Uint8Array, token.uint64>;
+  allowances: Storage.Map<Uint8Array, token.allowance_data>;
+  roles: Storage.Map<Uint8Array, token.boole>;
+  paused: Storage.Obj<token.boole>;
+  frozen: Storage.Map<Uint8Array, token.boole>;
+  nonces: Storage.Map<Uint8Array, token.uint64>;
+  balanceCheckpoints: Storage.Map<Uint8Array, token.uint64>;
+  supplyCheckpoints: Storage.Map<Uint8Array, token.uint64>;
+  delegates: Storage.Map<Uint8Array, token.address>;
+  votesCheckpoints: Storage.Map<Uint8Array, token.uint64>;
+  vestings: Storage.Map<Uint8Array, token.vesting>;
+  feeConfig: Storage.Obj<token.fee_config>;
+  feeExemptions: Storage.Map<Uint8Array, token.boole>;
+  metadata: Storage.Obj<token.metadata>;
+  ownership: Storage.Obj<token.ownership>;
+  flashFee: Storage.Obj<token.uint32>;
+  holds: Storage.Map<Uint8Array, token.hold>;
+  heldBalances: Storage.Map<Uint8Array, token.uint64>;
+  holdId: Storage.Obj<token.uint64>;
+  mintSigners: Storage.Obj<token.mint_signers>;
+  mintProposals: Storage.Map<Uint8Array, token.mint_proposal>;
+  mintProposalId: Storage.Obj<token.uint64>;
+  minterConfigs: Storage.Map<Uint8Array, token.minter_config>;
+  underlying: Storage.Obj<token.address>;
+  bridgeValidators: Storage.Obj<token.bridge_validators>;
+  bridgeAttestations: Storage.Map<Uint8Array, token.boole>;
+  bridgeOutId: Storage.Obj<token.uint64>;
+  staking: Storage.Obj<token.staking_info>;
+  stakes: Storage.Map<Uint8Array, token.stake_data>;
+  airdrop: Storage.Obj<token.airdrop>;
+  airdropClaims: Storage.Map<Uint8Array, token.uint64>;
 
   /**
    * Initializes a new instance of the Token class.
@@ -42,10 +74,221 @@ export class Token {
     this.allowances = new Storage.Map(
       this.contractId,
       Spaces.ALLOWANCES_SPACE_ID,
+      token.allowance_data.decode,
+      token.allowance_data.encode,
+      null
+    );
+    this.roles = new Storage.Map(
+      this.contractId,
+      Spaces.ROLES_SPACE_ID,
+      token.boole.decode,
+      token.boole.encode,
+      null
+    );
+    this.paused = new Storage.Obj(
+      this.contractId,
+      Spaces.PAUSED_SPACE_ID,
+      token.boole.decode,
+      token.boole.encode,
+      () => new token.boole(false)
+    );
+    this.frozen = new Storage.Map(
+      this.contractId,
+      Spaces.FROZEN_SPACE_ID,
+      token.boole.decode,
+      token.boole.encode,
+      () => new token.boole(false)
+    );
+    this.nonces = new Storage.Map(
+      this.contractId,
+      Spaces.NONCES_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      () => new token.uint64(0)
+    );
+    this.balanceCheckpoints = new Storage.Map(
+      this.contractId,
+      Spaces.BALANCE_CHECKPOINTS_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      null
+    );
+    this.supplyCheckpoints = new Storage.Map(
+      this.contractId,
+      Spaces.SUPPLY_CHECKPOINTS_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      null
+    );
+    this.delegates = new Storage.Map(
+      this.contractId,
+      Spaces.DELEGATES_SPACE_ID,
+      token.address.decode,
+      token.address.encode,
+      () => new token.address()
+    );
+    this.votesCheckpoints = new Storage.Map(
+      this.contractId,
+      Spaces.VOTES_CHECKPOINTS_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      null
+    );
+    this.vestings = new Storage.Map(
+      this.contractId,
+      Spaces.VESTINGS_SPACE_ID,
+      token.vesting.decode,
+      token.vesting.encode,
+      null
+    );
+    this.feeConfig = new Storage.Obj(
+      this.contractId,
+      Spaces.FEE_CONFIG_SPACE_ID,
+      token.fee_config.decode,
+      token.fee_config.encode,
+      () => new token.fee_config()
+    );
+    this.feeExemptions = new Storage.Map(
+      this.contractId,
+      Spaces.FEE_EXEMPTIONS_SPACE_ID,
+      token.boole.decode,
+      token.boole.encode,
+      null
+    );
+    this.metadata = new Storage.Obj(
+      this.contractId,
+      Spaces.METADATA_SPACE_ID,
+      token.metadata.decode,
+      token.metadata.encode,
+      () =>
+        new token.metadata(
+          Constants.name,
+          Constants.symbol,
+          Constants.decimals,
+          Constants.max_supply,
+          false
+        )
+    );
+    this.ownership = new Storage.Obj(
+      this.contractId,
+      Spaces.OWNERSHIP_SPACE_ID,
+      token.ownership.decode,
+      token.ownership.encode,
+      null
+    );
+    this.flashFee = new Storage.Obj(
+      this.contractId,
+      Spaces.FLASH_FEE_SPACE_ID,
+      token.uint32.decode,
+      token.uint32.encode,
+      () => new token.uint32(0)
+    );
+    this.holds = new Storage.Map(
+      this.contractId,
+      Spaces.HOLDS_SPACE_ID,
+      token.hold.decode,
+      token.hold.encode,
+      null
+    );
+    this.heldBalances = new Storage.Map(
+      this.contractId,
+      Spaces.HELD_BALANCES_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      () => new token.uint64(0)
+    );
+    this.holdId = new Storage.Obj(
+      this.contractId,
+      Spaces.HOLD_ID_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      () => new token.uint64(0)
+    );
+    this.mintSigners = new Storage.Obj(
+      this.contractId,
+      Spaces.MINT_SIGNERS_SPACE_ID,
+      token.mint_signers.decode,
+      token.mint_signers.encode,
+      () => new token.mint_signers()
+    );
+    this.mintProposals = new Storage.Map(
+      this.contractId,
+      Spaces.MINT_PROPOSALS_SPACE_ID,
+      token.mint_proposal.decode,
+      token.mint_proposal.encode,
+      null
+    );
+    this.mintProposalId = new Storage.Obj(
+      this.contractId,
+      Spaces.MINT_PROPOSAL_ID_SPACE_ID,
       token.uint64.decode,
       token.uint64.encode,
+      () => new token.uint64(0)
+    );
+    this.minterConfigs = new Storage.Map(
+      this.contractId,
+      Spaces.MINTER_CONFIGS_SPACE_ID,
+      token.minter_config.decode,
+      token.minter_config.encode,
+      null
+    );
+    this.underlying = new Storage.Obj(
+      this.contractId,
+      Spaces.UNDERLYING_SPACE_ID,
+      token.address.decode,
+      token.address.encode,
+      () => new token.address()
+    );
+    this.bridgeValidators = new Storage.Obj(
+      this.contractId,
+      Spaces.BRIDGE_VALIDATORS_SPACE_ID,
+      token.bridge_validators.decode,
+      token.bridge_validators.encode,
+      () => new token.bridge_validators()
+    );
+    this.bridgeAttestations = new Storage.Map(
+      this.contractId,
+      Spaces.BRIDGE_ATTESTATIONS_SPACE_ID,
+      token.boole.decode,
+      token.boole.encode,
       null
     );
+    this.bridgeOutId = new Storage.Obj(
+      this.contractId,
+      Spaces.BRIDGE_OUT_ID_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      () => new token.uint64(0)
+    );
+    this.staking = new Storage.Obj(
+      this.contractId,
+      Spaces.STAKING_SPACE_ID,
+      token.staking_info.decode,
+      token.staking_info.encode,
+      () =>
+        new token.staking_info(0, "0", 0, 0, 0, Constants.reward_duration)
+    );
+    this.stakes = new Storage.Map(
+      this.contractId,
+      Spaces.STAKES_SPACE_ID,
+      token.stake_data.decode,
+      token.stake_data.encode,
+      () => new token.stake_data(0, "0")
+    );
+    this.airdrop = new Storage.Obj(
+      this.contractId,
+      Spaces.AIRDROP_SPACE_ID,
+      token.airdrop.decode,
+      token.airdrop.encode,
+      () => new token.airdrop()
+    );
+    this.airdropClaims = new Storage.Map(
+      this.contractId,
+      Spaces.AIRDROP_CLAIMS_SPACE_ID,
+      token.uint64.decode,
+      token.uint64.encode,
+      () => new token.uint64(0)
+    );
   }
 
   /**
@@ -54,7 +297,7 @@ export class Token {
    * @returns {token.str} The name of the token.
    */
   name(args: token.name_arguments): token.str {
-    return new token.str(Constants.name);
+    return new token.str(this.metadata.get()!.name);
   }
 
   /**
@@ -63,7 +306,7 @@ export class Token {
    * @returns {token.str} The symbol of the token.
    */
   symbol(args: token.symbol_arguments): token.str {
-    return new token.str(Constants.symbol);
+    return new token.str(this.metadata.get()!.symbol);
   }
 
   /**
@@ -72,7 +315,7 @@ export class Token {
    * @returns {token.uint32} The number of decimal places used by the token.
    */
   decimals(args: token.decimals_arguments): token.uint32 {
-    return new token.uint32(Constants.decimals);
+    return new token.uint32(this.metadata.get()!.decimals);
   }
 
   /**
@@ -81,7 +324,8 @@ export class Token {
    * @returns {token.info} Detailed information about the token.
    */
   get_info(args: token.get_info_arguments): token.info {
-    return new token.info(Constants.name, Constants.symbol, Constants.decimals);
+    const metadata = this.metadata.get()!;
+    return new token.info(metadata.name, metadata.symbol, metadata.decimals);
   }
 
   /**
@@ -103,240 +347,1719 @@ export class Token {
   }
 
   /**
-   * Retrieves the allowance granted by an owner to a spender.
-   * @param {token.allowance_arguments} args - The arguments for retrieving the allowance.
-   * @returns {token.uint64} The allowance granted by the owner to the spender.
+   * Retrieves the balance of a specific account at a block height.
+   * @param {token.balance_of_at_arguments} args - The arguments for retrieving the account balance.
+   * @returns {token.uint64} The balance of the account at the end of the specified block.
    */
-  allowance(args: token.allowance_arguments): token.uint64 {
-    const key = new Uint8Array(50);
-    key.set(args.owner, 0);
-    key.set(args.spender, 25);
-    const allowance = this.allowances.get(key);
-    if (!allowance) return new token.uint64(0);
-    return allowance;
+  balance_of_at(args: token.balance_of_at_arguments): token.uint64 {
+    return new token.uint64(
+      this.get_checkpoint(this.balanceCheckpoints, args.owner, args.height)
+    );
   }
 
   /**
-   * Retrieves the signers associated with the current transaction.
-   * @returns {Array<Uint8Array>} An array of signer addresses.
+   * Retrieves the total supply of the token at a block height.
+   * @param {token.total_supply_at_arguments} args - The arguments for retrieving the total supply.
+   * @returns {token.uint64} The total supply at the end of the specified block.
    */
-  getSigners(): Array<Uint8Array> {
-    const sigBytes =
-      System.getTransactionField("signatures")!.message_value!.value!;
-    const signatures = Protobuf.decode<value.list_type>(
-      sigBytes,
-      value.list_type.decode
+  total_supply_at(args: token.total_supply_at_arguments): token.uint64 {
+    return new token.uint64(
+      this.get_checkpoint(this.supplyCheckpoints, new Uint8Array(0), args.height)
     );
-    const txId = System.getTransactionField("id")!.bytes_value;
-    const signers: Array<Uint8Array> = [];
-    for (let i = 0; i < signatures.values.length; i++) {
-      const publicKey = System.recoverPublicKey(
-        signatures.values[i].bytes_value,
-        txId
-      );
-      const address = Crypto.addressFromPublicKey(publicKey!);
-      signers.push(address);
-    }
-    return signers;
   }
 
   /**
-   * Checks the authority for a specific account based on the provided parameters.
-   * @param {Uint8Array} account - The account to check authority for.
-   * @param {boolean} acceptAllowances - Indicates whether to consider allowances in the authority check.
-   * @param {u64} amount - The amount involved in the authority check.
-   * @returns {boolean} Returns true if the account has authority; otherwise, returns false.
+   * Retrieves the delegate of an account.
+   * @param {token.delegates_of_arguments} args - The arguments for retrieving the delegate.
+   * @returns {token.address} The delegate of the account, empty if it has not delegated.
    */
-  private check_authority(
-    account: Uint8Array,
-    acceptAllowances: boolean,
-    amount: u64
-  ): bool {
-    const caller = System.getCaller();
-
-    const key = new Uint8Array(50);
-    if (acceptAllowances) {
-      key.set(account, 0);
-    }
-
-    // check if there is a caller (smart contract in the middle)
-    if (caller.caller && caller.caller.length > 0) {
-      if (acceptAllowances) {
-        // check if the caller is approved for all tokens
-        key.set(caller.caller, 25);
-        const allowance = this.allowances.get(key);
-        if (allowance && allowance.value >= amount) {
-          // spend allowance
-          allowance.value -= amount;
-          this.allowances.put(key, allowance);
-          return true;
-        }
-      }
-
-      // check if the account is the caller
-      if (Arrays.equal(account, caller.caller)) return true;
-
-      // the transaction has a caller but none of the different
-      // options authorized the operation, then it is rejected.
-      return false;
-    }
-
-    // // check the signatures related to allowances
-    const signers = this.getSigners();
-
-    // there is no caller, no approval from allowances, and the account
-    // doesn't have a contract then check if the account signed the transaction
-    for (let i = 0; i < signers.length; i += 1) {
-      if (Arrays.equal(account, signers[i])) return true;
-    }
-
-    // none of the different options authorized the operation,
-    // then it is rejected.
-    return false;
+  delegates_of(args: token.delegates_of_arguments): token.address {
+    return this.delegates.get(args.account)!;
   }
 
   /**
-   * Approves the spender to transfer a specific amount of tokens on behalf of the owner.
-   * @param {token.approve_arguments} args - The arguments for the approval operation.
-   * @returns {void}
+   * Retrieves the current voting power of an account.
+   * @param {token.get_votes_arguments} args - The arguments for retrieving the votes.
+   * @returns {token.uint64} The votes delegated to the account.
    */
-  _approve(args: token.approve_arguments): void {
-    const key = new Uint8Array(50);
-    key.set(args.owner, 0);
-    key.set(args.spender, 25);
-    this.allowances.put(key, new token.uint64(args.value));
-
-    const impacted = [args.spender, args.owner];
-    const approveEvent = new token.approve_event(
-      args.owner,
-      args.spender,
-      args.value
-    );
-    System.event(
-      "token.approve",
-      Protobuf.encode<token.approve_event>(
-        approveEvent,
-        token.approve_event.encode
-      ),
-      impacted
+  get_votes(args: token.get_votes_arguments): token.uint64 {
+    return new token.uint64(
+      this.get_checkpoint(this.votesCheckpoints, args.account, u64.MAX_VALUE)
     );
   }
 
   /**
-   * Transfers tokens from one account to another.
-   * @param {token.transfer_arguments} args - The arguments for the transfer operation.
-   * @returns {token.empty_object}
+   * Retrieves the voting power of an account at a block height.
+   * @param {token.get_past_votes_arguments} args - The arguments for retrieving the votes.
+   * @returns {token.uint64} The votes delegated to the account at the end of the specified block.
    */
-  _transfer(args: token.transfer_arguments): void {
-    let fromBalance = this.balances.get(args.from)!;
-    System.require(
-      fromBalance.value >= args.value,
-      "account 'from' has insufficient balance"
-    );
-    fromBalance.value -= args.value;
-    this.balances.put(args.from, fromBalance);
-
-    let toBalance = this.balances.get(args.to)!;
-    toBalance.value += args.value;
-    this.balances.put(args.to, toBalance);
-
-    const impacted = [args.to, args.from];
-    const transferEvent = new token.transfer_event(
-      args.from,
-      args.to,
-      args.value
-    );
-    System.event(
-      "token.transfer",
-      Protobuf.encode<token.transfer_event>(
-        transferEvent,
-        token.transfer_event.encode
-      ),
-      impacted
+  get_past_votes(args: token.get_past_votes_arguments): token.uint64 {
+    return new token.uint64(
+      this.get_checkpoint(this.votesCheckpoints, args.account, args.height)
     );
   }
 
   /**
-   * Mints new tokens and adds them to the specified account.
-   * @param {token.mint_arguments} args - The arguments for the mint operation.
-   * @returns {token.empty_object}
+   * Retrieves the vesting schedule of a beneficiary.
+   * @param {token.vesting_of_arguments} args - The arguments for retrieving the vesting schedule.
+   * @returns {token.vesting} The vesting schedule, empty if the beneficiary has none.
    */
-  _mint(args: token.mint_arguments): void {
-    const supply = this.supply.get()!;
-    System.require(
-      supply.value <=
-        SafeMath.sub(
-          Constants.max_supply,
-          args.value,
-          "mint would overflow supply"
-        ),
-      "mint would overflow supply"
-    );
-
-    let toBalance = this.balances.get(args.to)!;
-    toBalance.value += args.value;
-    this.balances.put(args.to, toBalance);
-    supply.value += args.value;
-    this.supply.put(supply);
-
-    const impacted = [args.to];
-    const mintEvent = new token.mint_event(args.to, args.value);
-    System.event(
-      "token.mint",
-      Protobuf.encode<token.mint_event>(mintEvent, token.mint_event.encode),
-      impacted
-    );
+  vesting_of(args: token.vesting_of_arguments): token.vesting {
+    const vesting = this.vestings.get(args.beneficiary);
+    if (!vesting) return new token.vesting();
+    return vesting;
   }
 
   /**
-   * Burns tokens by deducting them from the specified account and reducing the total supply.
-   * @param {token.burn_arguments} args - The arguments for the burn operation.
-   * @returns {token.empty_object}
+   * Retrieves the vested tokens of a beneficiary that are not released yet.
+   * @param {token.releasable_of_arguments} args - The arguments for retrieving the releasable tokens.
+   * @returns {token.uint64} The amount of tokens that can be released.
    */
-  _burn(args: token.burn_arguments): void {
-    let fromBalance = this.balances.get(args.from)!;
-    System.require(
-      fromBalance.value >= args.value,
-      "account 'from' has insufficient balance"
-    );
-
-    const supply = this.supply.get()!;
-    fromBalance.value -= args.value;
-    this.balances.put(args.from, fromBalance);
-    supply.value -= args.value;
-    this.supply.put(supply);
-
-    const impacted = [args.from!];
-    const burnEvent = new token.burn_event(args.from, args.value);
-    System.event(
-      "token.burn",
-      Protobuf.encode<token.burn_event>(burnEvent, token.burn_event.encode),
-      impacted
-    );
+  releasable_of(args: token.releasable_of_arguments): token.uint64 {
+    const vesting = this.vestings.get(args.beneficiary);
+    if (!vesting) return new token.uint64(0);
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    return new token.uint64(this.vested_amount(vesting, now) - vesting.released);
   }
 
   /**
-   * Approves the spender to transfer a specific amount of tokens on behalf of the owner.
-   * @param {token.approve_arguments} args - The arguments for the approval operation.
-   * @returns {token.empty_object}
+   * Retrieves the transfer fee configuration.
+   * @param {token.get_fee_config_arguments} args - The arguments for retrieving the fee configuration.
+   * @returns {token.fee_config} The fee in basis points and the treasury receiving it.
    */
-  approve(args: token.approve_arguments): token.empty_object {
-    const isAuthorized = this.check_authority(args.owner, false, 0);
-    System.require(isAuthorized, "approve operation not authorized");
-    this._approve(args);
-    return new token.empty_object();
+  get_fee_config(args: token.get_fee_config_arguments): token.fee_config {
+    return this.feeConfig.get()!;
   }
 
   /**
-   * Transfers tokens from one account to another.
-   * @param {token.transfer_arguments} args - The arguments for the transfer operation.
-   * @returns {token.empty_object}
+   * Checks if an account is exempted from the transfer fee.
+   * @param {token.is_fee_exempt_arguments} args - The arguments for checking the exemption.
+   * @returns {token.boole} True if the account is exempted.
    */
-  transfer(args: token.transfer_arguments): token.empty_object {
-    const isAuthorized = this.check_authority(args.from, true, args.value);
-    System.require(isAuthorized, "from has not authorized transfer");
-    this._transfer(args);
-    return new token.empty_object();
+  is_fee_exempt(args: token.is_fee_exempt_arguments): token.boole {
+    return new token.boole(this.feeExemptions.has(args.account));
+  }
+
+  /**
+   * Retrieves the fee charged on flash mints.
+   * @param {token.get_flash_fee_arguments} args - The arguments for retrieving the flash mint fee.
+   * @returns {token.uint32} The flash mint fee in basis points.
+   */
+  get_flash_fee(args: token.get_flash_fee_arguments): token.uint32 {
+    return this.flashFee.get()!;
+  }
+
+  /**
+   * Retrieves a hold.
+   * @param {token.hold_of_arguments} args - The arguments for retrieving the hold.
+   * @returns {token.hold} The hold, empty if it does not exist.
+   */
+  hold_of(args: token.hold_of_arguments): token.hold {
+    const hold = this.holds.get(this.id_key(args.id));
+    if (!hold) return new token.hold();
+    return hold;
+  }
+
+  /**
+   * Retrieves the amount held from the balance of an account. It is included in
+   * the balance but can't be transferred or burned.
+   * @param {token.held_balance_of_arguments} args - The arguments for retrieving the held amount.
+   * @returns {token.uint64} The amount held from the balance of the account.
+   */
+  held_balance_of(args: token.held_balance_of_arguments): token.uint64 {
+    return this.heldBalances.get(args.owner)!;
+  }
+
+  /**
+   * Retrieves the signers approving mints and their threshold.
+   * @param {token.get_mint_signers_arguments} args - The arguments for retrieving the mint signers.
+   * @returns {token.mint_signers} The mint signers, with a threshold of 0 if mints don't require approvals.
+   */
+  get_mint_signers(args: token.get_mint_signers_arguments): token.mint_signers {
+    return this.mintSigners.get()!;
+  }
+
+  /**
+   * Retrieves a pending mint proposal.
+   * @param {token.get_mint_proposal_arguments} args - The arguments for retrieving the proposal.
+   * @returns {token.mint_proposal} The proposal, empty if it does not exist or was executed.
+   */
+  get_mint_proposal(
+    args: token.get_mint_proposal_arguments
+  ): token.mint_proposal {
+    const proposal = this.mintProposals.get(this.id_key(args.id));
+    if (!proposal) return new token.mint_proposal();
+    return proposal;
+  }
+
+  /**
+   * Retrieves the pending mint proposals. The page starts after the `start` id.
+   * @param {token.get_mint_proposals_arguments} args - The arguments for retrieving the proposals.
+   * @returns {token.mint_proposal_list} The pending proposals.
+   */
+  get_mint_proposals(
+    args: token.get_mint_proposals_arguments
+  ): token.mint_proposal_list {
+    const limit = this.page_limit(args.limit);
+    const result = new token.mint_proposal_list();
+
+    let key = this.id_key(args.start);
+    while (<u32>result.value.length < limit) {
+      const obj = this.mintProposals.getNext(key);
+      if (!obj) break;
+      key = obj.key!;
+      result.value.push(obj.value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Retrieves the remaining mint allowance of a minter.
+   * @param {token.minter_allowance_of_arguments} args - The arguments for retrieving the minter allowance.
+   * @returns {token.uint64} The remaining allowance, 0 if the minter is not configured, or the maximum u64 for the owner.
+   */
+  minter_allowance_of(
+    args: token.minter_allowance_of_arguments
+  ): token.uint64 {
+    if (Arrays.equal(args.minter, this.get_ownership().owner)) {
+      return new token.uint64(u64.MAX_VALUE);
+    }
+    const config = this.minterConfigs.get(args.minter);
+    if (!config) return new token.uint64(0);
+    return new token.uint64(config.allowance);
+  }
+
+  /**
+   * Retrieves the amount a minter can still mint in the current epoch.
+   * @param {token.epoch_capacity_of_arguments} args - The arguments for retrieving the epoch capacity.
+   * @returns {token.uint64} The remaining capacity, 0 if the minter is not configured, or the maximum u64 if the minter is not limited per epoch.
+   */
+  epoch_capacity_of(args: token.epoch_capacity_of_arguments): token.uint64 {
+    if (Arrays.equal(args.minter, this.get_ownership().owner)) {
+      return new token.uint64(u64.MAX_VALUE);
+    }
+    const config = this.minterConfigs.get(args.minter);
+    if (!config) return new token.uint64(0);
+    if (config.epoch_length == 0) return new token.uint64(u64.MAX_VALUE);
+    const minted =
+      this.current_epoch(config) == config.epoch ? config.epoch_minted : 0;
+    if (minted >= config.epoch_limit) return new token.uint64(0);
+    return new token.uint64(config.epoch_limit - minted);
+  }
+
+  /**
+   * Retrieves the underlying token wrapped by this token.
+   * @param {token.get_underlying_arguments} args - The arguments for retrieving the underlying token.
+   * @returns {token.address} The underlying token contract, empty if the token is not a wrapper.
+   */
+  get_underlying(args: token.get_underlying_arguments): token.address {
+    return this.underlying.get()!;
+  }
+
+  /**
+   * Retrieves the validators attesting bridge transfers and their threshold.
+   * @param {token.get_bridge_validators_arguments} args - The arguments for retrieving the validators.
+   * @returns {token.bridge_validators} The validators, with a threshold of 0 if the bridge is disabled.
+   */
+  get_bridge_validators(
+    args: token.get_bridge_validators_arguments
+  ): token.bridge_validators {
+    return this.bridgeValidators.get()!;
+  }
+
+  /**
+   * Checks if a bridge attestation has been processed.
+   * @param {token.is_attestation_processed_arguments} args - The arguments for checking the attestation.
+   * @returns {token.boole} True if the attestation has been processed.
+   */
+  is_attestation_processed(
+    args: token.is_attestation_processed_arguments
+  ): token.boole {
+    return new token.boole(this.bridgeAttestations.has(args.id));
+  }
+
+  /**
+   * Retrieves the staking totals, the reward accumulator and the unstake cooldown.
+   * @param {token.get_staking_info_arguments} args - The arguments for retrieving the staking info.
+   * @returns {token.staking_info} The staking info, with the rewards distributed so far.
+   */
+  get_staking_info(args: token.get_staking_info_arguments): token.staking_info {
+    return this.updated_staking();
+  }
+
+  /**
+   * Retrieves the tokens staked by an account.
+   * @param {token.staked_of_arguments} args - The arguments for retrieving the staked tokens.
+   * @returns {token.uint64} The amount of tokens staked.
+   */
+  staked_of(args: token.staked_of_arguments): token.uint64 {
+    return new token.uint64(this.stakes.get(args.owner)!.value);
+  }
+
+  /**
+   * Retrieves the staking rewards of an account that are not claimed yet.
+   * @param {token.earned_of_arguments} args - The arguments for retrieving the rewards.
+   * @returns {token.uint64} The amount of rewards that can be claimed.
+   */
+  earned_of(args: token.earned_of_arguments): token.uint64 {
+    const stake = this.stakes.get(args.owner)!;
+    const rewardPerToken = this.updated_staking().reward_per_token;
+    return new token.uint64(
+      stake.rewards + this.pending_rewards(stake, rewardPerToken)
+    );
+  }
+
+  /**
+   * Retrieves the current airdrop.
+   * @param {token.get_airdrop_arguments} args - The arguments for retrieving the airdrop.
+   * @returns {token.airdrop} The airdrop, with an empty root if there is none.
+   */
+  get_airdrop(args: token.get_airdrop_arguments): token.airdrop {
+    return this.airdrop.get()!;
+  }
+
+  /**
+   * Checks if the leaf of the current airdrop at an index has been claimed.
+   * @param {token.is_claimed_arguments} args - The arguments for checking the claim.
+   * @returns {token.boole} True if the leaf has been claimed.
+   */
+  is_claimed(args: token.is_claimed_arguments): token.boole {
+    const airdropId = this.airdrop.get()!.id;
+    const word = this.airdropClaims.get(this.claim_key(airdropId, args.index))!;
+    return new token.boole((word.value & (<u64>1 << (args.index % 64))) != 0);
+  }
+
+  /**
+   * Retrieves the allowance granted by an owner to a spender.
+   * @param {token.allowance_arguments} args - The arguments for retrieving the allowance.
+   * @returns {token.uint64} The allowance granted by the owner to the spender, 0 if it has expired.
+   */
+  allowance(args: token.allowance_arguments): token.uint64 {
+    const key = this.allowance_key(args.owner, args.spender);
+    const allowance = this.allowances.get(key);
+    if (!allowance || this.is_expired(allowance)) return new token.uint64(0);
+    return new token.uint64(allowance.value);
+  }
+
+  /**
+   * Builds the storage key of the allowance granted by an owner to a spender.
+   * @param {Uint8Array} owner - The owner of the tokens.
+   * @param {Uint8Array} spender - The spender of the tokens.
+   * @returns {Uint8Array} The allowance key.
+   */
+  private allowance_key(owner: Uint8Array, spender: Uint8Array): Uint8Array {
+    const key = new Uint8Array(50);
+    key.set(owner, 0);
+    key.set(spender, 25);
+    return key;
+  }
+
+  /**
+   * Checks if an allowance has expired, either by block timestamp or by block height.
+   * @param {token.allowance_data} allowance - The allowance.
+   * @returns {bool} True if the allowance has expired.
+   */
+  private is_expired(allowance: token.allowance_data): bool {
+    if (allowance.expiration > 0) {
+      const now = System.getBlockField("header.timestamp")!.uint64_value;
+      if (now >= allowance.expiration) return true;
+    }
+    if (allowance.expiration_height > 0) {
+      const height = System.getBlockField("header.height")!.uint64_value;
+      if (height >= allowance.expiration_height) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks if an account has a specific role.
+   * The owner implicitly has every role, and it is the only holder of the owner role.
+   * @param {token.has_role_arguments} args - The arguments for checking the role.
+   * @returns {token.boole} True if the account has the role.
+   */
+  has_role(args: token.has_role_arguments): token.boole {
+    const owner = this.get_ownership().owner;
+    if (owner.length > 0 && Arrays.equal(args.account, owner)) {
+      return new token.boole(true);
+    }
+    if (args.role == Roles.OWNER) return new token.boole(false);
+    const role = this.roles.get(this.role_key(args.role, args.account));
+    if (!role) return new token.boole(false);
+    return role;
+  }
+
+  /**
+   * Retrieves the owner of the token. It is the contract account until the
+   * ownership is transferred, and empty once it is renounced.
+   * @param {token.owner_arguments} args - The arguments for retrieving the owner.
+   * @returns {token.address} The owner of the token.
+   */
+  owner(args: token.owner_arguments): token.address {
+    return new token.address(this.get_ownership().owner);
+  }
+
+  /**
+   * Retrieves the account that can accept the ownership of the token.
+   * @param {token.pending_owner_arguments} args - The arguments for retrieving the pending owner.
+   * @returns {token.address} The pending owner, empty if there is none.
+   */
+  pending_owner(args: token.pending_owner_arguments): token.address {
+    return new token.address(this.get_ownership().pending_owner);
+  }
+
+  /**
+   * Checks if the token is paused.
+   * @param {token.is_paused_arguments} args - The arguments for checking the pause state.
+   * @returns {token.boole} True if the token is paused.
+   */
+  is_paused(args: token.is_paused_arguments): token.boole {
+    return this.paused.get()!;
+  }
+
+  /**
+   * Checks if an account is frozen.
+   * @param {token.is_frozen_arguments} args - The arguments for checking the freeze state.
+   * @returns {token.boole} True if the account is frozen.
+   */
+  is_frozen(args: token.is_frozen_arguments): token.boole {
+    return this.frozen.get(args.account)!;
+  }
+
+  /**
+   * Retrieves the next signature nonce of an account.
+   * @param {token.nonce_of_arguments} args - The arguments for retrieving the nonce.
+   * @returns {token.uint64} The nonce expected in the next signed message of the account.
+   */
+  nonce_of(args: token.nonce_of_arguments): token.uint64 {
+    return this.nonces.get(args.owner)!;
+  }
+
+  /**
+   * Retrieves the ownership of the token, owned by the contract account by default.
+   * @returns {token.ownership} The owner and the pending owner.
+   */
+  private get_ownership(): token.ownership {
+    const ownership = this.ownership.get();
+    if (!ownership) return new token.ownership(this.contractId);
+    return ownership;
+  }
+
+  /**
+   * Builds the storage key of a role granted to an account.
+   * @param {u32} role - The role.
+   * @param {Uint8Array} account - The account holding the role.
+   * @returns {Uint8Array} The role key.
+   */
+  private role_key(role: u32, account: Uint8Array): Uint8Array {
+    System.require(role <= Roles.PAUSER, "invalid role");
+    const key = new Uint8Array(26);
+    key[0] = <u8>role;
+    key.set(account, 1);
+    return key;
+  }
+
+  /**
+   * Builds the storage key of a checkpoint. The height is encoded in big endian
+   * so the checkpoints of a prefix are sorted by height.
+   * @param {Uint8Array} prefix - The prefix of the checkpoint, usually an account.
+   * @param {u64} height - The block height of the checkpoint.
+   * @returns {Uint8Array} The checkpoint key.
+   */
+  private checkpoint_key(prefix: Uint8Array, height: u64): Uint8Array {
+    const key = new Uint8Array(prefix.length + 8);
+    key.set(prefix, 0);
+    for (let i = 0; i < 8; i += 1) {
+      key[prefix.length + i] = <u8>(height >> (56 - 8 * i));
+    }
+    return key;
+  }
+
+  /**
+   * Builds the storage key of a hold or a mint proposal.
+   * @param {u64} id - The id of the hold or the proposal.
+   * @returns {Uint8Array} The key, big-endian so the entries are sorted by id.
+   */
+  private id_key(id: u64): Uint8Array {
+    const key = new Uint8Array(8);
+    for (let i = 0; i < 8; i += 1) {
+      key[i] = <u8>(id >> (56 - 8 * i));
+    }
+    return key;
+  }
+
+  /**
+   * Computes the balance of an account that is not held.
+   * @param {Uint8Array} account - The account.
+   * @param {u64} balance - The balance of the account.
+   * @returns {u64} The spendable balance.
+   */
+  private spendable(account: Uint8Array, balance: u64): u64 {
+    const held = this.heldBalances.get(account)!.value;
+    return balance > held ? balance - held : 0;
+  }
+
+  /**
+   * Builds the storage key of the claim bitmap word holding an airdrop leaf. Each
+   * word holds the claims of 64 consecutive leaves.
+   * @param {u64} airdropId - The id of the airdrop.
+   * @param {u64} index - The index of the leaf.
+   * @returns {Uint8Array} The key.
+   */
+  private claim_key(airdropId: u64, index: u64): Uint8Array {
+    const key = new Uint8Array(16);
+    key.set(this.id_key(airdropId), 0);
+    key.set(this.id_key(index / 64), 8);
+    return key;
+  }
+
+  /**
+   * Computes the sha256 digest of data, without the multihash prefix.
+   * @param {Uint8Array} data - The data.
+   * @returns {Uint8Array} The 32 bytes digest.
+   */
+  private sha256(data: Uint8Array): Uint8Array {
+    return System.hash(Crypto.multicodec.sha2_256, data)!.slice(2);
+  }
+
+  /**
+   * Computes the Merkle root of a leaf from its proof. At each level the position
+   * of the node, given by the bits of the index, tells if the sibling goes left or
+   * right. Nodes are the sha256 digest of their concatenated children.
+   * @param {Uint8Array} leaf - The digest of the leaf.
+   * @param {u64} index - The position of the leaf.
+   * @param {Array<Uint8Array>} proof - The siblings from the leaf up to the root.
+   * @returns {Uint8Array} The computed root.
+   */
+  private merkle_root(
+    leaf: Uint8Array,
+    index: u64,
+    proof: Array<Uint8Array>
+  ): Uint8Array {
+    let node = leaf;
+    let position = index;
+    for (let i = 0; i < proof.length; i += 1) {
+      const pair = new Uint8Array(node.length + proof[i].length);
+      if (position & 1) {
+        pair.set(proof[i], 0);
+        pair.set(node, proof[i].length);
+      } else {
+        pair.set(node, 0);
+        pair.set(proof[i], node.length);
+      }
+      node = this.sha256(pair);
+      position >>= 1;
+    }
+    return node;
+  }
+
+  /**
+   * Retrieves the value of the latest checkpoint at or before a block height.
+   * @param {Storage.Map<Uint8Array, token.uint64>} checkpoints - The checkpoints space.
+   * @param {Uint8Array} prefix - The prefix of the checkpoint, usually an account.
+   * @param {u64} height - The block height.
+   * @returns {u64} The value of the checkpoint, or 0 if there is none.
+   */
+  private get_checkpoint(
+    checkpoints: Storage.Map<Uint8Array, token.uint64>,
+    prefix: Uint8Array,
+    height: u64
+  ): u64 {
+    const key = this.checkpoint_key(prefix, height);
+    const checkpoint = checkpoints.get(key);
+    if (checkpoint) return checkpoint.value;
+
+    const prev = checkpoints.getPrev(key);
+    if (!prev || !prev.key) return 0;
+    if (!Arrays.equal(prev.key!.slice(0, prefix.length), prefix)) return 0;
+    return prev.value.value;
+  }
+
+  /**
+   * Records the value of a checkpoint at the current block height.
+   * @param {Storage.Map<Uint8Array, token.uint64>} checkpoints - The checkpoints space.
+   * @param {Uint8Array} prefix - The prefix of the checkpoint, usually an account.
+   * @param {u64} value - The value to record.
+   * @returns {void}
+   */
+  private put_checkpoint(
+    checkpoints: Storage.Map<Uint8Array, token.uint64>,
+    prefix: Uint8Array,
+    value: u64
+  ): void {
+    const height = System.getBlockField("header.height")!.uint64_value;
+    checkpoints.put(
+      this.checkpoint_key(prefix, height),
+      new token.uint64(value)
+    );
+  }
+
+  /**
+   * Moves votes from the delegate of a sender to the delegate of a receiver.
+   * An empty delegate does not hold votes.
+   * @param {Uint8Array} fromDelegate - The delegate losing the votes.
+   * @param {Uint8Array} toDelegate - The delegate receiving the votes.
+   * @param {u64} amount - The amount of votes to move.
+   * @returns {void}
+   */
+  private move_votes(
+    fromDelegate: Uint8Array,
+    toDelegate: Uint8Array,
+    amount: u64
+  ): void {
+    if (amount == 0 || Arrays.equal(fromDelegate, toDelegate)) return;
+
+    if (fromDelegate.length > 0) {
+      const previousVotes = this.get_checkpoint(
+        this.votesCheckpoints,
+        fromDelegate,
+        u64.MAX_VALUE
+      );
+      this.write_votes(fromDelegate, previousVotes, previousVotes - amount);
+    }
+
+    if (toDelegate.length > 0) {
+      const previousVotes = this.get_checkpoint(
+        this.votesCheckpoints,
+        toDelegate,
+        u64.MAX_VALUE
+      );
+      this.write_votes(toDelegate, previousVotes, previousVotes + amount);
+    }
+  }
+
+  /**
+   * Records the new votes of a delegate.
+   * @param {Uint8Array} delegate - The delegate.
+   * @param {u64} previousVotes - The votes before the change.
+   * @param {u64} newVotes - The votes after the change.
+   * @returns {void}
+   */
+  private write_votes(
+    delegate: Uint8Array,
+    previousVotes: u64,
+    newVotes: u64
+  ): void {
+    this.put_checkpoint(this.votesCheckpoints, delegate, newVotes);
+
+    const impacted = [delegate];
+    const votesEvent = new token.votes_changed_event(
+      delegate,
+      previousVotes,
+      newVotes
+    );
+    System.event(
+      "token.votes_changed",
+      Protobuf.encode<token.votes_changed_event>(
+        votesEvent,
+        token.votes_changed_event.encode
+      ),
+      impacted
+    );
+  }
+
+  /**
+   * Computes the amount of tokens of a vesting schedule vested at a given time.
+   * Nothing is vested before the cliff, then tokens are released linearly
+   * from the start until the end of the duration.
+   * @param {token.vesting} vesting - The vesting schedule.
+   * @param {u64} now - The current block timestamp.
+   * @returns {u64} The amount of tokens vested.
+   */
+  private vested_amount(vesting: token.vesting, now: u64): u64 {
+    if (vesting.revoked) return vesting.total;
+    if (now < vesting.start + vesting.cliff) return 0;
+    if (now >= vesting.start + vesting.duration) return vesting.total;
+    return u128
+      .muldiv(
+        u128.fromU64(vesting.total),
+        u128.fromU64(now - vesting.start),
+        u128.fromU64(vesting.duration)
+      )
+      .toU64();
+  }
+
+  /**
+   * Retrieves the accounts holding tokens, skipping zero balances. The page starts
+   * after the `start` account, or at the first (or last) holder if it is empty.
+   * @param {token.get_holders_arguments} args - The arguments for retrieving the holders.
+   * @returns {token.holder_list} The holders and their balances.
+   */
+  get_holders(args: token.get_holders_arguments): token.holder_list {
+    const descending = args.direction == token.direction.descending;
+    const limit = this.page_limit(args.limit);
+    const result = new token.holder_list();
+
+    let key = args.start;
+    if (key.length == 0 && descending) {
+      key = new Uint8Array(25).fill(0xff);
+    }
+
+    while (<u32>result.value.length < limit) {
+      const obj = descending
+        ? this.balances.getPrev(key)
+        : this.balances.getNext(key);
+      if (!obj) break;
+      key = obj.key!;
+      if (obj.value.value > 0) {
+        result.value.push(new token.holder(key, obj.value.value));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Retrieves the allowances granted by an owner, skipping zero and expired allowances. The page
+   * starts after the `start` spender, or at the first spender if it is empty.
+   * @param {token.get_allowances_arguments} args - The arguments for retrieving the allowances.
+   * @returns {token.allowance_list} The spenders and their allowances.
+   */
+  get_allowances(args: token.get_allowances_arguments): token.allowance_list {
+    const limit = this.page_limit(args.limit);
+    const result = new token.allowance_list();
+
+    let key = this.allowance_key(args.owner, args.start);
+
+    while (<u32>result.value.length < limit) {
+      const obj = this.allowances.getNext(key);
+      if (!obj) break;
+      key = obj.key!;
+      if (!Arrays.equal(key.slice(0, 25), args.owner)) break;
+      if (obj.value.value > 0 && !this.is_expired(obj.value)) {
+        result.value.push(
+          new token.allowance_entry(key.slice(25), obj.value.value)
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Bounds the number of entries returned by a paginated query.
+   * @param {u32} limit - The requested number of entries, 0 for the maximum.
+   * @returns {u32} The number of entries to return.
+   */
+  private page_limit(limit: u32): u32 {
+    if (limit == 0 || limit > Constants.max_page_size) {
+      return Constants.max_page_size;
+    }
+    return limit;
+  }
+
+  /**
+   * Retrieves the signers associated with the current transaction.
+   * @returns {Array<Uint8Array>} An array of signer addresses.
+   */
+  getSigners(): Array<Uint8Array> {
+    const sigBytes =
+      System.getTransactionField("signatures")!.message_value!.value!;
+    const signatures = Protobuf.decode<value.list_type>(
+      sigBytes,
+      value.list_type.decode
+    );
+    const txId = System.getTransactionField("id")!.bytes_value;
+    const signers: Array<Uint8Array> = [];
+    for (let i = 0; i < signatures.values.length; i++) {
+      const publicKey = System.recoverPublicKey(
+        signatures.values[i].bytes_value,
+        txId
+      );
+      const address = Crypto.addressFromPublicKey(publicKey!);
+      signers.push(address);
+    }
+    return signers;
+  }
+
+  /**
+   * Recovers the address that signed a message.
+   * @param {Uint8Array} message - The signed message.
+   * @param {Uint8Array} signature - The signature of the sha256 hash of the message.
+   * @returns {Uint8Array} The address of the signer.
+   */
+  recoverSigner(message: Uint8Array, signature: Uint8Array): Uint8Array {
+    const digest = System.hash(Crypto.multicodec.sha2_256, message);
+    const publicKey = System.recoverPublicKey(signature, digest!);
+    return Crypto.addressFromPublicKey(publicKey!);
+  }
+
+  /**
+   * Consumes the signature nonce of an account.
+   * @param {Uint8Array} account - The account that signed the message.
+   * @param {u64} nonce - The nonce included in the signed message.
+   * @returns {void}
+   */
+  private use_nonce(account: Uint8Array, nonce: u64): void {
+    const currentNonce = this.nonces.get(account)!;
+    System.require(currentNonce.value == nonce, "invalid nonce");
+    currentNonce.value += 1;
+    this.nonces.put(account, currentNonce);
+  }
+
+  /**
+   * Checks the authority for a specific account based on the provided parameters.
+   * @param {Uint8Array} account - The account to check authority for.
+   * @param {boolean} acceptAllowances - Indicates whether to consider allowances in the authority check.
+   * @param {u64} amount - The amount involved in the authority check.
+   * @returns {boolean} Returns true if the account has authority; otherwise, returns false.
+   */
+  private check_authority(
+    account: Uint8Array,
+    acceptAllowances: boolean,
+    amount: u64
+  ): bool {
+    const caller = System.getCaller();
+
+    const key = new Uint8Array(50);
+    if (acceptAllowances) {
+      key.set(account, 0);
+    }
+
+    // check if there is a caller (smart contract in the middle)
+    if (caller.caller && caller.caller.length > 0) {
+      if (acceptAllowances) {
+        // check if the caller is approved for all tokens
+        key.set(caller.caller, 25);
+        const allowance = this.allowances.get(key);
+        if (
+          allowance &&
+          !this.is_expired(allowance) &&
+          allowance.value >= amount
+        ) {
+          // spend allowance
+          allowance.value -= amount;
+          this.allowances.put(key, allowance);
+          return true;
+        }
+      }
+
+      // check if the account is the caller
+      if (Arrays.equal(account, caller.caller)) return true;
+
+      // the transaction has a caller but none of the different
+      // options authorized the operation, then it is rejected.
+      return false;
+    }
+
+    // there is no caller, then the chain checks the authority of the account
+    return this.check_account_authority(account);
+  }
+
+  /**
+   * Checks the authority of an account when there is no caller. The chain checks
+   * the signatures of the transaction, or the authorize entry point of the account
+   * if it is a smart wallet. The contract account is only checked against the
+   * signatures, because the chain would answer with its own authorize entry point.
+   * @param {Uint8Array} account - The account to check authority for.
+   * @returns {boolean} Returns true if the account has authority; otherwise, returns false.
+   */
+  private check_account_authority(account: Uint8Array): bool {
+    if (Arrays.equal(account, this.contractId)) {
+      return this.check_contract_authority();
+    }
+    return System.checkAuthority(
+      authority.authorization_type.contract_call,
+      account
+    );
+  }
+
+  /**
+   * Calls a receiver contract, which has to accept the operation by returning true.
+   * @param {Uint8Array} receiver - The receiver contract.
+   * @param {u32} entryPoint - The entry point of the receiver.
+   * @param {Uint8Array} callArgs - The encoded arguments of the call.
+   * @param {string} error - The error message used if the receiver rejects the operation.
+   * @returns {void}
+   */
+  private call_receiver(
+    receiver: Uint8Array,
+    entryPoint: u32,
+    callArgs: Uint8Array,
+    error: string
+  ): void {
+    const callRes = System.call(receiver, entryPoint, callArgs);
+    System.require(callRes.code == 0 && callRes.res.object != null, error);
+    const accepted = Protobuf.decode<token.boole>(
+      callRes.res.object!,
+      token.boole.decode
+    );
+    System.require(accepted.value, error);
+  }
+
+  /**
+   * Checks the authority of the contract account without calling back its own
+   * authorize entry point: the contract account has to have signed the transaction.
+   * @returns {boolean} Returns true if the contract account has authority; otherwise, returns false.
+   */
+  private check_contract_authority(): bool {
+    const signers = this.getSigners();
+    for (let i = 0; i < signers.length; i += 1) {
+      if (Arrays.equal(this.contractId, signers[i])) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks if the acting account has a specific role.
+   * @param {u32} role - The role required for the operation.
+   * @param {Uint8Array} account - The acting account, empty for the caller or the owner.
+   * @returns {boolean} Returns true if the role is held; otherwise, returns false.
+   */
+  private check_role(
+    role: u32,
+    account: Uint8Array = new Uint8Array(0)
+  ): bool {
+    return this.role_holder(role, account) != null;
+  }
+
+  /**
+   * Returns the acting account of a privileged operation if it holds a specific
+   * role and has authorized the operation. The acting account is the one named by
+   * the entry point, or else the caller, or else the owner. Without a caller, only
+   * the authority of the acting account is checked with the chain.
+   * @param {u32} role - The role required for the operation.
+   * @param {Uint8Array} account - The acting account, empty for the caller or the owner.
+   * @returns {Uint8Array | null} The acting account, or null if it doesn't hold the role.
+   */
+  private role_holder(
+    role: u32,
+    account: Uint8Array = new Uint8Array(0)
+  ): Uint8Array | null {
+    const caller = System.getCaller().caller;
+    const hasCaller = caller.length > 0;
+
+    let actor = account;
+    if (actor.length == 0) {
+      actor = hasCaller ? caller : this.get_ownership().owner;
+    }
+    if (actor.length == 0) return null;
+
+    const hasRoleArgs = new token.has_role_arguments(role, actor);
+    if (!this.has_role(hasRoleArgs).value) return null;
+
+    // check if there is a caller (smart contract in the middle)
+    if (hasCaller) return Arrays.equal(actor, caller) ? actor : null;
+    return this.check_account_authority(actor) ? actor : null;
+  }
+
+  /**
+   * Requires the token not to wrap an underlying token. The supply of a wrapper only
+   * changes with deposits and withdrawals, so that it always equals its underlying balance.
+   * @returns {void}
+   */
+  private require_unwrapped(): void {
+    System.require(
+      this.underlying.get()!.value.length == 0,
+      "token is a wrapper, use deposit and withdraw"
+    );
+  }
+
+  /**
+   * Transfers underlying tokens by calling the transfer entry point of the
+   * underlying contract.
+   * @param {Uint8Array} underlying - The underlying token contract.
+   * @param {Uint8Array} from - The sender of the underlying tokens.
+   * @param {Uint8Array} to - The receiver of the underlying tokens.
+   * @param {u64} value - The amount of underlying tokens.
+   * @returns {void}
+   */
+  private transfer_underlying(
+    underlying: Uint8Array,
+    from: Uint8Array,
+    to: Uint8Array,
+    value: u64
+  ): void {
+    const callRes = System.call(
+      underlying,
+      Constants.transfer_entry_point,
+      Protobuf.encode(
+        new token.transfer_arguments(from, to, value),
+        token.transfer_arguments.encode
+      )
+    );
+    System.require(callRes.code == 0, "underlying transfer failed");
+
+    // tokens following the older standard return a boolean
+    if (callRes.res.object && callRes.res.object!.length > 0) {
+      const transferred = Protobuf.decode<token.boole>(
+        callRes.res.object!,
+        token.boole.decode
+      );
+      System.require(transferred.value, "underlying transfer failed");
+    }
+  }
+
+  /**
+   * Retrieves the balance of the contract account in the underlying token.
+   * @param {Uint8Array} underlying - The underlying token contract.
+   * @returns {u64} The underlying balance of the contract.
+   */
+  private underlying_balance(underlying: Uint8Array): u64 {
+    const callRes = System.call(
+      underlying,
+      Constants.balance_of_entry_point,
+      Protobuf.encode(
+        new token.balance_of_arguments(this.contractId),
+        token.balance_of_arguments.encode
+      )
+    );
+    System.require(callRes.code == 0, "underlying balance is unavailable");
+    if (!callRes.res.object) return 0;
+    return Protobuf.decode<token.uint64>(
+      callRes.res.object!,
+      token.uint64.decode
+    ).value;
+  }
+
+  /**
+   * Consumes the mint allowance of a minter and the capacity of the current epoch.
+   * The owner is not limited, and minters without a configuration can't mint.
+   * @param {Uint8Array} minter - The minter.
+   * @param {u64} value - The amount minted.
+   * @returns {void}
+   */
+  private use_minter_allowance(minter: Uint8Array, value: u64): void {
+    if (Arrays.equal(minter, this.get_ownership().owner)) return;
+    const storedConfig = this.minterConfigs.get(minter);
+    System.require(storedConfig != null, "minter is not configured");
+    const config = storedConfig!;
+
+    System.require(
+      config.allowance >= value,
+      "mint exceeds the minter allowance"
+    );
+    config.allowance -= value;
+
+    if (config.epoch_length > 0) {
+      const epoch = this.current_epoch(config);
+      if (epoch != config.epoch) {
+        config.epoch = epoch;
+        config.epoch_minted = 0;
+      }
+      System.require(
+        config.epoch_minted <= config.epoch_limit &&
+          config.epoch_limit - config.epoch_minted >= value,
+        "mint exceeds the epoch capacity"
+      );
+      config.epoch_minted += value;
+    }
+
+    this.minterConfigs.put(minter, config);
+  }
+
+  /**
+   * Computes the epoch of a minter configuration at the current block height.
+   * @param {token.minter_config} config - The minter configuration.
+   * @returns {u64} The current epoch.
+   */
+  private current_epoch(config: token.minter_config): u64 {
+    const height = System.getBlockField("header.height")!.uint64_value;
+    return height / config.epoch_length;
+  }
+
+  /**
+   * Transfers the ownership to a new owner and clears the pending owner.
+   * @param {Uint8Array} newOwner - The new owner, empty to renounce the ownership.
+   * @returns {void}
+   */
+  _transfer_ownership(newOwner: Uint8Array): void {
+    const previousOwner = this.get_ownership().owner;
+    this.ownership.put(new token.ownership(newOwner));
+
+    const impacted = [previousOwner];
+    if (newOwner.length > 0) impacted.unshift(newOwner);
+    const ownershipEvent = new token.ownership_transferred_event(
+      previousOwner,
+      newOwner
+    );
+    System.event(
+      "token.ownership_transferred",
+      Protobuf.encode<token.ownership_transferred_event>(
+        ownershipEvent,
+        token.ownership_transferred_event.encode
+      ),
+      impacted
+    );
+  }
+
+  /**
+   * Requires a list of accounts not to contain duplicates.
+   * @param {Array<Uint8Array>} accounts - The accounts.
+   * @param {string} error - The error message used if there is a duplicate.
+   * @returns {void}
+   */
+  private require_distinct(accounts: Array<Uint8Array>, error: string): void {
+    for (let i = 0; i < accounts.length; i += 1) {
+      for (let j = i + 1; j < accounts.length; j += 1) {
+        System.require(!Arrays.equal(accounts[i], accounts[j]), error);
+      }
+    }
+  }
+
+  /**
+   * Counts the distinct validators that signed a bridge attestation.
+   * @param {token.bridge_validators} bridgeValidators - The validators.
+   * @param {Uint8Array} message - The encoded attestation.
+   * @param {Array<Uint8Array>} signatures - The signatures of the attestation.
+   * @returns {u32} The number of validators that signed the attestation.
+   */
+  private count_validators(
+    bridgeValidators: token.bridge_validators,
+    message: Uint8Array,
+    signatures: Array<Uint8Array>
+  ): u32 {
+    const validators = bridgeValidators.validators;
+    const signed = new Array<bool>(validators.length).fill(false);
+    let count: u32 = 0;
+    for (let i = 0; i < signatures.length; i += 1) {
+      const signer = this.recoverSigner(message, signatures[i]);
+      for (let j = 0; j < validators.length; j += 1) {
+        if (!signed[j] && Arrays.equal(validators[j], signer)) {
+          signed[j] = true;
+          count += 1;
+          break;
+        }
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Removes tokens from the balance of an account, which must be spendable.
+   * @param {Uint8Array} account - The account sending the tokens.
+   * @param {u64} value - The amount of tokens.
+   * @returns {void}
+   */
+  private debit_balance(account: Uint8Array, value: u64): void {
+    System.require(!this.paused.get()!.value, "token is paused");
+    System.require(
+      !this.frozen.get(account)!.value,
+      "account 'from' is frozen"
+    );
+
+    let balance = this.balances.get(account)!;
+    System.require(
+      this.spendable(account, balance.value) >= value,
+      "account 'from' has insufficient balance"
+    );
+    balance.value -= value;
+    this.put_balance(account, balance);
+  }
+
+  /**
+   * Stores the balance of an account and its checkpoint. Empty balances are removed,
+   * so that listing the holders does not go through them.
+   * @param {Uint8Array} account - The account.
+   * @param {token.uint64} balance - The new balance.
+   * @returns {void}
+   */
+  private put_balance(account: Uint8Array, balance: token.uint64): void {
+    if (balance.value == 0) {
+      this.balances.remove(account);
+    } else {
+      this.balances.put(account, balance);
+    }
+    this.put_checkpoint(this.balanceCheckpoints, account, balance.value);
+  }
+
+  /**
+   * Retrieves the staking info with the notified rewards distributed up to the
+   * current block time. Rewards are distributed linearly until the end of the
+   * reward period, and the distribution pauses while nothing is staked.
+   * @returns {token.staking_info} The updated staking info, not stored yet.
+   */
+  private updated_staking(): token.staking_info {
+    const staking = this.staking.get()!;
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    if (now <= staking.last_update) return staking;
+
+    const elapsed = now - staking.last_update;
+    if (staking.reward_remaining == 0) {
+      staking.last_update = now;
+      return staking;
+    }
+    if (staking.total_staked == 0) {
+      staking.period_finish += elapsed;
+      staking.last_update = now;
+      return staking;
+    }
+
+    let distributed = staking.reward_remaining;
+    if (now < staking.period_finish) {
+      distributed = u128
+        .muldiv(
+          u128.fromU64(staking.reward_remaining),
+          u128.fromU64(elapsed),
+          u128.fromU64(staking.period_finish - staking.last_update)
+        )
+        .toU64();
+    }
+
+    const increment = u128.muldiv(
+      u128.fromU64(distributed),
+      u128.fromU64(Constants.reward_precision),
+      u128.fromU64(staking.total_staked)
+    );
+    staking.reward_per_token = u128
+      .add(u128.fromString(staking.reward_per_token), increment)
+      .toString();
+    staking.reward_remaining -= distributed;
+    staking.last_update = now;
+    return staking;
+  }
+
+  /**
+   * Computes the rewards earned by a stake since its last update.
+   * @param {token.stake_data} stake - The stake.
+   * @param {string} rewardPerToken - The current reward per token.
+   * @returns {u64} The amount of rewards.
+   */
+  private pending_rewards(
+    stake: token.stake_data,
+    rewardPerToken: string
+  ): u64 {
+    if (stake.value == 0) return 0;
+    return u128
+      .muldiv(
+        u128.fromU64(stake.value),
+        u128.sub(
+          u128.fromString(rewardPerToken),
+          u128.fromString(stake.reward_per_token_paid)
+        ),
+        u128.fromU64(Constants.reward_precision)
+      )
+      .toU64();
+  }
+
+  /**
+   * Retrieves the stake of an account with the rewards earned so far added to it.
+   * @param {Uint8Array} account - The account.
+   * @param {token.staking_info} staking - The staking info.
+   * @returns {token.stake_data} The updated stake, not stored yet.
+   */
+  private updated_stake(
+    account: Uint8Array,
+    staking: token.staking_info
+  ): token.stake_data {
+    const stake = this.stakes.get(account)!;
+    stake.rewards += this.pending_rewards(stake, staking.reward_per_token);
+    stake.reward_per_token_paid = staking.reward_per_token;
+    return stake;
+  }
+
+  /**
+   * Stores the stake of an account, removing it when it is empty.
+   * @param {Uint8Array} account - The account.
+   * @param {token.stake_data} stake - The stake.
+   * @returns {void}
+   */
+  private put_stake(account: Uint8Array, stake: token.stake_data): void {
+    if (stake.value == 0 && stake.rewards == 0) {
+      this.stakes.remove(account);
+    } else {
+      this.stakes.put(account, stake);
+    }
+  }
+
+  /**
+   * Emits a staking event.
+   * @param {string} name - The name of the event.
+   * @param {Uint8Array} account - The account staking, unstaking or receiving rewards.
+   * @param {u64} value - The amount of tokens.
+   * @returns {void}
+   */
+  private staking_event(name: string, account: Uint8Array, value: u64): void {
+    const impacted = [account];
+    const stakingEvent = new token.staking_event(account, value);
+    System.event(
+      name,
+      Protobuf.encode<token.staking_event>(
+        stakingEvent,
+        token.staking_event.encode
+      ),
+      impacted
+    );
+  }
+
+  /**
+   * Checks if an account is one of the mint signers.
+   * @param {token.mint_signers} mintSigners - The mint signers.
+   * @param {Uint8Array} account - The account.
+   * @returns {bool} True if the account is a mint signer.
+   */
+  private is_mint_signer(
+    mintSigners: token.mint_signers,
+    account: Uint8Array
+  ): bool {
+    for (let i = 0; i < mintSigners.signers.length; i += 1) {
+      if (Arrays.equal(mintSigners.signers[i], account)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Approves a mint proposal on behalf of a mint signer.
+   * @param {token.mint_proposal} proposal - The proposal.
+   * @param {Uint8Array} signer - The signer approving the proposal.
+   * @returns {void}
+   */
+  private approve_proposal(
+    proposal: token.mint_proposal,
+    signer: Uint8Array
+  ): void {
+    const mintSigners = this.mintSigners.get()!;
+    System.require(
+      this.is_mint_signer(mintSigners, signer),
+      "account is not a mint signer"
+    );
+    const isAuthorized = this.check_authority(signer, false, 0);
+    System.require(isAuthorized, "signer has not authorized mint approval");
+    for (let i = 0; i < proposal.approvals.length; i += 1) {
+      System.require(
+        !Arrays.equal(proposal.approvals[i], signer),
+        "signer has already approved the mint"
+      );
+    }
+
+    proposal.approvals.push(signer);
+    this.mintProposals.put(this.id_key(proposal.id), proposal);
+    this.proposal_event("token.mint_approved", proposal, signer);
+  }
+
+  /**
+   * Emits a mint proposal event.
+   * @param {string} name - The name of the event.
+   * @param {token.mint_proposal} proposal - The proposal.
+   * @param {Uint8Array} account - The account proposing, approving or executing the mint.
+   * @returns {void}
+   */
+  private proposal_event(
+    name: string,
+    proposal: token.mint_proposal,
+    account: Uint8Array
+  ): void {
+    const impacted = [proposal.to];
+    const proposalEvent = new token.mint_proposal_event(
+      proposal.id,
+      account,
+      proposal.to,
+      proposal.value
+    );
+    System.event(
+      name,
+      Protobuf.encode<token.mint_proposal_event>(
+        proposalEvent,
+        token.mint_proposal_event.encode
+      ),
+      impacted
+    );
+  }
+
+  /**
+   * Removes a hold, making the held tokens spendable by their owner again.
+   * @param {u64} id - The id of the hold.
+   * @param {token.hold} hold - The hold.
+   * @returns {void}
+   */
+  private remove_hold(id: u64, hold: token.hold): void {
+    this.holds.remove(this.id_key(id));
+    const held = this.heldBalances.get(hold.from)!;
+    held.value -= hold.value;
+    if (held.value == 0) {
+      this.heldBalances.remove(hold.from);
+    } else {
+      this.heldBalances.put(hold.from, held);
+    }
+  }
+
+  /**
+   * Emits a hold event.
+   * @param {string} name - The name of the event.
+   * @param {u64} id - The id of the hold.
+   * @param {token.hold} hold - The hold.
+   * @returns {void}
+   */
+  private hold_event(name: string, id: u64, hold: token.hold): void {
+    const impacted = [hold.beneficiary, hold.from];
+    const holdEvent = new token.hold_event(
+      id,
+      hold.from,
+      hold.beneficiary,
+      hold.value,
+      hold.expiration
+    );
+    System.event(
+      name,
+      Protobuf.encode<token.hold_event>(holdEvent, token.hold_event.encode),
+      impacted
+    );
+  }
+
+  /**
+   * Grants a role to an account.
+   * @param {u32} role - The role to grant.
+   * @param {Uint8Array} account - The account receiving the role.
+   * @returns {void}
+   */
+  _grant_role(role: u32, account: Uint8Array): void {
+    const key = this.role_key(role, account);
+    if (this.roles.has(key)) return;
+    this.roles.put(key, new token.boole(true));
+
+    const impacted = [account];
+    const roleEvent = new token.role_event(role, account);
+    System.event(
+      "token.role_granted",
+      Protobuf.encode<token.role_event>(roleEvent, token.role_event.encode),
+      impacted
+    );
+  }
+
+  /**
+   * Revokes a role from an account.
+   * @param {u32} role - The role to revoke.
+   * @param {Uint8Array} account - The account losing the role.
+   * @returns {void}
+   */
+  _revoke_role(role: u32, account: Uint8Array): void {
+    const key = this.role_key(role, account);
+    if (!this.roles.has(key)) return;
+    this.roles.remove(key);
+
+    const impacted = [account];
+    const roleEvent = new token.role_event(role, account);
+    System.event(
+      "token.role_revoked",
+      Protobuf.encode<token.role_event>(roleEvent, token.role_event.encode),
+      impacted
+    );
+  }
+
+  /**
+   * Sets the pause state of the token.
+   * @param {bool} paused - The new pause state.
+   * @returns {void}
+   */
+  _set_paused(paused: bool): void {
+    this.paused.put(new token.boole(paused));
+
+    const pauseEvent = new token.pause_event(paused);
+    System.event(
+      "token.paused",
+      Protobuf.encode<token.pause_event>(pauseEvent, token.pause_event.encode),
+      []
+    );
+  }
+
+  /**
+   * Sets the freeze state of an account.
+   * @param {Uint8Array} account - The account to freeze or unfreeze.
+   * @param {bool} frozen - The new freeze state.
+   * @returns {void}
+   */
+  _set_frozen(account: Uint8Array, frozen: bool): void {
+    if (frozen) {
+      this.frozen.put(account, new token.boole(true));
+    } else {
+      this.frozen.remove(account);
+    }
+
+    const impacted = [account];
+    const freezeEvent = new token.freeze_event(account, frozen);
+    System.event(
+      "token.frozen",
+      Protobuf.encode<token.freeze_event>(
+        freezeEvent,
+        token.freeze_event.encode
+      ),
+      impacted
+    );
+  }
+
+  /**
+   * Delegates the voting power of an account.
+   * @param {Uint8Array} delegator - The account delegating its voting power.
+   * @param {Uint8Array} delegatee - The account receiving the voting power.
+   * @returns {void}
+   */
+  _delegate(delegator: Uint8Array, delegatee: Uint8Array): void {
+    const fromDelegate = this.delegates.get(delegator)!.value;
+    if (delegatee.length > 0) {
+      this.delegates.put(delegator, new token.address(delegatee));
+    } else {
+      this.delegates.remove(delegator);
+    }
+
+    const impacted = [delegator];
+    const delegateEvent = new token.delegate_changed_event(
+      delegator,
+      fromDelegate,
+      delegatee
+    );
+    System.event(
+      "token.delegate_changed",
+      Protobuf.encode<token.delegate_changed_event>(
+        delegateEvent,
+        token.delegate_changed_event.encode
+      ),
+      impacted
+    );
+
+    this.move_votes(
+      fromDelegate,
+      delegatee,
+      this.balances.get(delegator)!.value
+    );
+  }
+
+  /**
+   * Credits the vested tokens of a beneficiary that are not released yet from the
+   * vesting schedule to the beneficiary. The vesting schedule is updated but not stored.
+   * @param {Uint8Array} beneficiary - The beneficiary of the vesting schedule.
+   * @param {token.vesting} vesting - The vesting schedule.
+   * @param {u64} now - The current block timestamp.
+   * @returns {void}
+   */
+  _release(beneficiary: Uint8Array, vesting: token.vesting, now: u64): void {
+    const value = this.vested_amount(vesting, now) - vesting.released;
+    if (value == 0) return;
+    vesting.released += value;
+
+    System.require(!this.paused.get()!.value, "token is paused");
+    System.require(
+      !this.frozen.get(beneficiary)!.value,
+      "account 'to' is frozen"
+    );
+    this.credit_balance(beneficiary, value);
+    this.move_votes(
+      new Uint8Array(0),
+      this.delegates.get(beneficiary)!.value,
+      value
+    );
+
+    const impacted = [beneficiary];
+    const releasedEvent = new token.vesting_released_event(beneficiary, value);
+    System.event(
+      "token.vesting_released",
+      Protobuf.encode<token.vesting_released_event>(
+        releasedEvent,
+        token.vesting_released_event.encode
+      ),
+      impacted
+    );
+  }
+
+  /**
+   * Approves the spender to transfer a specific amount of tokens on behalf of the owner.
+   * @param {token.approve_arguments} args - The arguments for the approval operation.
+   * @returns {void}
+   */
+  _approve(args: token.approve_arguments): void {
+    System.require(!this.paused.get()!.value, "token is paused");
+
+    const key = this.allowance_key(args.owner, args.spender);
+    this.allowances.put(
+      key,
+      new token.allowance_data(
+        args.value,
+        args.expiration,
+        args.expiration_height
+      )
+    );
+
+    const impacted = [args.spender, args.owner];
+    const approveEvent = new token.approve_event(
+      args.owner,
+      args.spender,
+      args.value,
+      args.expiration,
+      args.expiration_height
+    );
+    System.event(
+      "token.approve",
+      Protobuf.encode<token.approve_event>(
+        approveEvent,
+        token.approve_event.encode
+      ),
+      impacted
+    );
+  }
+
+  /**
+   * Transfers tokens from one account to another.
+   * @param {token.transfer_arguments} args - The arguments for the transfer operation.
+   * @returns {u64} The amount credited to the receiver, after the transfer fee.
+   */
+  _transfer(args: token.transfer_arguments): u64 {
+    this.debit_balance(args.from, args.value);
+    return this.credit_transfer(args.from, args.to, args.value, true);
+  }
+
+  /**
+   * Transfers tokens from one account to another without charging the transfer fee.
+   * It settles operations of the contract that have to credit the exact amount,
+   * like hold captures.
+   * @param {token.transfer_arguments} args - The arguments for the transfer operation.
+   * @returns {void}
+   */
+  _transfer_without_fee(args: token.transfer_arguments): void {
+    this.debit_balance(args.from, args.value);
+    this.credit_transfer(args.from, args.to, args.value, false);
+  }
+
+  /**
+   * Credits tokens already debited from the sender to the receiver. When a transfer
+   * fee applies, it is deducted from the value and sent to the treasury.
+   * @param {Uint8Array} from - The sender of the tokens.
+   * @param {Uint8Array} to - The receiver of the tokens.
+   * @param {u64} value - The amount debited from the sender.
+   * @param {bool} chargeFee - Indicates whether the transfer fee applies.
+   * @returns {u64} The amount credited to the receiver.
+   */
+  private credit_transfer(
+    from: Uint8Array,
+    to: Uint8Array,
+    value: u64,
+    chargeFee: bool
+  ): u64 {
+    System.require(!this.frozen.get(to)!.value, "account 'to' is frozen");
+
+    const feeConfig = this.feeConfig.get()!;
+    const fee = chargeFee ? this.transfer_fee(feeConfig, from, to, value) : 0;
+    const fromDelegate = this.delegates.get(from)!.value;
+
+    this.credit_balance(to, value - fee);
+    this.move_votes(fromDelegate, this.delegates.get(to)!.value, value - fee);
+
+    const impacted = [to, from];
+    const transferEvent = new token.transfer_event(from, to, value - fee);
+    System.event(
+      "token.transfer",
+      Protobuf.encode<token.transfer_event>(
+        transferEvent,
+        token.transfer_event.encode
+      ),
+      impacted
+    );
+
+    if (fee == 0) return value;
+
+    const treasury = feeConfig.treasury;
+    this.credit_balance(treasury, fee);
+    this.move_votes(fromDelegate, this.delegates.get(treasury)!.value, fee);
+
+    const feeImpacted = [treasury, from];
+    const feeEvent = new token.fee_event(from, treasury, fee);
+    System.event(
+      "token.fee",
+      Protobuf.encode<token.fee_event>(feeEvent, token.fee_event.encode),
+      feeImpacted
+    );
+    return value - fee;
+  }
+
+  /**
+   * Adds tokens to the balance of an account.
+   * @param {Uint8Array} account - The account receiving the tokens.
+   * @param {u64} value - The amount of tokens.
+   * @returns {void}
+   */
+  private credit_balance(account: Uint8Array, value: u64): void {
+    let balance = this.balances.get(account)!;
+    balance.value += value;
+    this.put_balance(account, balance);
+  }
+
+  /**
+   * Adds tokens to the total supply, up to the max supply.
+   * @param {u64} value - The amount of tokens.
+   * @returns {void}
+   */
+  private increase_supply(value: u64): void {
+    const supply = this.supply.get()!;
+    System.require(
+      supply.value <=
+        SafeMath.sub(
+          this.metadata.get()!.max_supply,
+          value,
+          "mint would overflow supply"
+        ),
+      "mint would overflow supply"
+    );
+    supply.value += value;
+    this.supply.put(supply);
+    this.put_checkpoint(this.supplyCheckpoints, new Uint8Array(0), supply.value);
+  }
+
+  /**
+   * Removes tokens from the total supply.
+   * @param {u64} value - The amount of tokens.
+   * @returns {void}
+   */
+  private decrease_supply(value: u64): void {
+    const supply = this.supply.get()!;
+    supply.value -= value;
+    this.supply.put(supply);
+    this.put_checkpoint(this.supplyCheckpoints, new Uint8Array(0), supply.value);
+  }
+
+  /**
+   * Computes the fee charged on a transfer. No fee is charged when the sender
+   * or the receiver is exempted, or when there is no treasury.
+   * @param {token.fee_config} feeConfig - The fee configuration.
+   * @param {Uint8Array} from - The sender of the tokens.
+   * @param {Uint8Array} to - The receiver of the tokens.
+   * @param {u64} value - The amount transferred.
+   * @returns {u64} The fee deducted from the amount transferred.
+   */
+  private transfer_fee(
+    feeConfig: token.fee_config,
+    from: Uint8Array,
+    to: Uint8Array,
+    value: u64
+  ): u64 {
+    if (feeConfig.fee_bps == 0 || feeConfig.treasury.length == 0) return 0;
+    if (this.feeExemptions.has(from) || this.feeExemptions.has(to)) return 0;
+    return u128
+      .muldiv(
+        u128.fromU64(value),
+        u128.fromU64(feeConfig.fee_bps),
+        u128.fromU64(10000)
+      )
+      .toU64();
+  }
+
+  /**
+   * Computes the total amount of a batch transfer.
+   * @param {Array<token.transfer_entry>} transfers - The transfers of the batch.
+   * @returns {u64} The sum of the values of the transfers.
+   */
+  private batch_total(transfers: Array<token.transfer_entry>): u64 {
+    let total: u64 = 0;
+    for (let i = 0; i < transfers.length; i += 1) {
+      total = SafeMath.add(
+        total,
+        transfers[i].value,
+        "batch transfer would overflow"
+      );
+    }
+    return total;
+  }
+
+  /**
+   * Transfers tokens from one account to many accounts, debiting the sender once.
+   * @param {token.batch_transfer_arguments} args - The arguments for the batch transfer operation.
+   * @returns {void}
+   */
+  _batch_transfer(args: token.batch_transfer_arguments): void {
+    const total = this.batch_total(args.transfers);
+    this.debit_balance(args.from, total);
+
+    for (let i = 0; i < args.transfers.length; i += 1) {
+      const entry = args.transfers[i];
+      this.credit_transfer(args.from, entry.to, entry.value, true);
+    }
   }
 
   /**
@@ -344,24 +2067,1565 @@ export class Token {
    * @param {token.mint_arguments} args - The arguments for the mint operation.
    * @returns {token.empty_object}
    */
-  mint(args: token.mint_arguments): token.empty_object {
-    const isAuthorized = this.check_authority(this.contractId, false, 0);
-    System.require(isAuthorized, "owner has not authorized mint");
-    this._mint(args);
+  _mint(args: token.mint_arguments): void {
+    System.require(!this.paused.get()!.value, "token is paused");
+    System.require(!this.frozen.get(args.to)!.value, "account 'to' is frozen");
+
+    this.increase_supply(args.value);
+    this.credit_balance(args.to, args.value);
+
+    this.move_votes(
+      new Uint8Array(0),
+      this.delegates.get(args.to)!.value,
+      args.value
+    );
+
+    const impacted = [args.to];
+    const mintEvent = new token.mint_event(args.to, args.value);
+    System.event(
+      "token.mint",
+      Protobuf.encode<token.mint_event>(mintEvent, token.mint_event.encode),
+      impacted
+    );
+  }
+
+  /**
+   * Burns tokens by deducting them from the specified account and reducing the total supply.
+   * @param {token.burn_arguments} args - The arguments for the burn operation.
+   * @returns {token.empty_object}
+   */
+  _burn(args: token.burn_arguments): void {
+    this.debit_balance(args.from, args.value);
+    this.decrease_supply(args.value);
+
+    this.move_votes(
+      this.delegates.get(args.from)!.value,
+      new Uint8Array(0),
+      args.value
+    );
+
+    const impacted = [args.from!];
+    const burnEvent = new token.burn_event(args.from, args.value);
+    System.event(
+      "token.burn",
+      Protobuf.encode<token.burn_event>(burnEvent, token.burn_event.encode),
+      impacted
+    );
+  }
+
+  /**
+   * Authorizes the use of the contract account. Uploading new bytecode and calling
+   * other contracts on its behalf require the authority of the owner, so they are
+   * locked once the ownership is renounced. Other operations require the authority
+   * of the contract account itself. A wrapper never authorizes calls to its
+   * underlying token, which can only be moved by deposits and withdrawals.
+   * @param {authority.authorize_arguments} args - The arguments for the authorize operation.
+   * @returns {authority.authorize_result} True if the operation is authorized.
+   */
+  authorize(args: authority.authorize_arguments): authority.authorize_result {
+    const underlying = this.underlying.get()!.value;
+    if (
+      underlying.length > 0 &&
+      args.type == authority.authorization_type.contract_call &&
+      (!args.call || Arrays.equal(args.call!.contract_id, underlying))
+    ) {
+      return new authority.authorize_result(false);
+    }
+
+    if (
+      args.type == authority.authorization_type.contract_upload ||
+      args.type == authority.authorization_type.contract_call
+    ) {
+      const owner = this.get_ownership().owner;
+      if (owner.length == 0) return new authority.authorize_result(false);
+      if (!Arrays.equal(owner, this.contractId)) {
+        return new authority.authorize_result(
+          System.checkAuthority(args.type, owner)
+        );
+      }
+    }
+
+    return new authority.authorize_result(this.check_contract_authority());
+  }
+
+  /**
+   * Stores the token metadata and transfers the ownership to the initial owner.
+   * It can be called only once, by the owner.
+   * @param {token.initialize_arguments} args - The arguments for the initialize operation.
+   * @returns {token.empty_object}
+   */
+  initialize(args: token.initialize_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized initialize");
+    System.require(
+      !this.metadata.get()!.initialized,
+      "token is already initialized"
+    );
+    System.require(
+      args.max_supply >= this.supply.get()!.value,
+      "max supply is below the total supply"
+    );
+
+    this.metadata.put(
+      new token.metadata(
+        args.name,
+        args.symbol,
+        args.decimals,
+        args.max_supply,
+        true
+      )
+    );
+    if (args.owner.length > 0) this._transfer_ownership(args.owner);
+    return new token.empty_object();
+  }
+
+  /**
+   * Approves the spender to transfer a specific amount of tokens on behalf of the owner.
+   * @param {token.approve_arguments} args - The arguments for the approval operation.
+   * @returns {token.empty_object}
+   */
+  approve(args: token.approve_arguments): token.empty_object {
+    const isAuthorized = this.check_authority(args.owner, false, 0);
+    System.require(isAuthorized, "approve operation not authorized");
+    this._approve(args);
+    return new token.empty_object();
+  }
+
+  /**
+   * Increases the allowance of a spender. The expiration of the allowance is kept.
+   * An expired allowance can't be increased, it has to be approved again with a
+   * new expiration.
+   * @param {token.increase_allowance_arguments} args - The arguments for the increase operation.
+   * @returns {token.empty_object}
+   */
+  increase_allowance(
+    args: token.increase_allowance_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_authority(args.owner, false, 0);
+    System.require(isAuthorized, "approve operation not authorized");
+
+    const key = this.allowance_key(args.owner, args.spender);
+    let allowance = this.allowances.get(key);
+    if (!allowance) allowance = new token.allowance_data();
+    System.require(
+      !this.is_expired(allowance),
+      "allowance has expired, approve a new one"
+    );
+    this._approve(
+      new token.approve_arguments(
+        args.owner,
+        args.spender,
+        SafeMath.add(allowance.value, args.value, "allowance would overflow"),
+        allowance.expiration,
+        allowance.expiration_height
+      )
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Decreases the allowance of a spender. The expiration of the allowance is kept.
+   * @param {token.decrease_allowance_arguments} args - The arguments for the decrease operation.
+   * @returns {token.empty_object}
+   */
+  decrease_allowance(
+    args: token.decrease_allowance_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_authority(args.owner, false, 0);
+    System.require(isAuthorized, "approve operation not authorized");
+
+    const key = this.allowance_key(args.owner, args.spender);
+    let allowance = this.allowances.get(key);
+    if (!allowance || this.is_expired(allowance)) {
+      allowance = new token.allowance_data();
+    }
+    System.require(
+      allowance.value >= args.value,
+      "decreased allowance below zero"
+    );
+    this._approve(
+      new token.approve_arguments(
+        args.owner,
+        args.spender,
+        allowance.value - args.value,
+        allowance.expiration,
+        allowance.expiration_height
+      )
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Transfers tokens from one account to another.
+   * @param {token.transfer_arguments} args - The arguments for the transfer operation.
+   * @returns {token.empty_object}
+   */
+  transfer(args: token.transfer_arguments): token.empty_object {
+    const isAuthorized = this.check_authority(args.from, true, args.value);
+    System.require(isAuthorized, "from has not authorized transfer");
+    this._transfer(args);
+    return new token.empty_object();
+  }
+
+  /**
+   * Transfers tokens from one account to many accounts. The authority of the sender
+   * is checked once against the total amount.
+   * @param {token.batch_transfer_arguments} args - The arguments for the batch transfer operation.
+   * @returns {token.empty_object}
+   */
+  batch_transfer(args: token.batch_transfer_arguments): token.empty_object {
+    const total = this.batch_total(args.transfers);
+    const isAuthorized = this.check_authority(args.from, true, total);
+    System.require(isAuthorized, "from has not authorized transfer");
+    this._batch_transfer(args);
+    return new token.empty_object();
+  }
+
+  /**
+   * Mints new tokens and adds them to the specified account. Only the owner
+   * or a minter can mint.
+   * @param {token.mint_arguments} args - The arguments for the mint operation.
+   * @returns {token.empty_object}
+   */
+  mint(args: token.mint_arguments): token.empty_object {
+    this.require_unwrapped();
+    const minter = this.role_holder(Roles.MINTER, args.minter);
+    System.require(minter != null, "minter has not authorized mint");
+    System.require(
+      this.mintSigners.get()!.threshold == 0,
+      "mint requires the approval of the mint signers"
+    );
+    this.use_minter_allowance(minter!, args.value);
+    this._mint(args);
+    return new token.empty_object();
+  }
+
+  /**
+   * Burns tokens by deducting them from the specified account and reducing the total supply.
+   * The holder can burn its own tokens, and an approved spender can burn on behalf of
+   * the holder by consuming its allowance.
+   * @param {token.burn_arguments} args - The arguments for the burn operation.
+   * @returns {token.empty_object}
+   */
+  burn(args: token.burn_arguments): token.empty_object {
+    this.require_unwrapped();
+    const isAuthorized = this.check_authority(args.from, true, args.value);
+    System.require(isAuthorized, "from has not authorized burn");
+    this._burn(args);
+    return new token.empty_object();
+  }
+
+  /**
+   * Grants a role to an account. Only the owner can grant roles.
+   * @param {token.grant_role_arguments} args - The arguments for the grant operation.
+   * @returns {token.empty_object}
+   */
+  grant_role(args: token.grant_role_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized grant role");
+    System.require(
+      args.role != Roles.OWNER,
+      "owner role is transferred with transfer_ownership"
+    );
+    this._grant_role(args.role, args.account);
+    return new token.empty_object();
+  }
+
+  /**
+   * Revokes a role from an account. Only the owner can revoke roles.
+   * @param {token.revoke_role_arguments} args - The arguments for the revoke operation.
+   * @returns {token.empty_object}
+   */
+  revoke_role(args: token.revoke_role_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized revoke role");
+    this._revoke_role(args.role, args.account);
+    return new token.empty_object();
+  }
+
+  /**
+   * Renounces a role held by the account.
+   * @param {token.renounce_role_arguments} args - The arguments for the renounce operation.
+   * @returns {token.empty_object}
+   */
+  renounce_role(args: token.renounce_role_arguments): token.empty_object {
+    const isAuthorized = this.check_authority(args.account, false, 0);
+    System.require(isAuthorized, "account has not authorized renounce role");
+    this._revoke_role(args.role, args.account);
+    return new token.empty_object();
+  }
+
+  /**
+   * Starts the transfer of the ownership. The new owner has to accept it
+   * before it takes effect.
+   * @param {token.transfer_ownership_arguments} args - The arguments for the transfer ownership operation.
+   * @returns {token.empty_object}
+   */
+  transfer_ownership(
+    args: token.transfer_ownership_arguments
+  ): token.empty_object {
+    const ownership = this.get_ownership();
+    System.require(ownership.owner.length > 0, "ownership has been renounced");
+    const isAuthorized = this.check_authority(ownership.owner, false, 0);
+    System.require(isAuthorized, "owner has not authorized transfer ownership");
+    System.require(args.new_owner.length > 0, "new owner is empty");
+    ownership.pending_owner = args.new_owner;
+    this.ownership.put(ownership);
+    return new token.empty_object();
+  }
+
+  /**
+   * Accepts the ownership. Only the pending owner can accept it.
+   * @param {token.accept_ownership_arguments} args - The arguments for the accept ownership operation.
+   * @returns {token.empty_object}
+   */
+  accept_ownership(args: token.accept_ownership_arguments): token.empty_object {
+    const pendingOwner = this.get_ownership().pending_owner;
+    System.require(pendingOwner.length > 0, "there is no pending owner");
+    const isAuthorized = this.check_authority(pendingOwner, false, 0);
+    System.require(
+      isAuthorized,
+      "pending owner has not authorized accept ownership"
+    );
+    this._transfer_ownership(pendingOwner);
+    return new token.empty_object();
+  }
+
+  /**
+   * Renounces the ownership. The functions restricted to the owner are
+   * locked permanently.
+   * @param {token.renounce_ownership_arguments} args - The arguments for the renounce ownership operation.
+   * @returns {token.empty_object}
+   */
+  renounce_ownership(
+    args: token.renounce_ownership_arguments
+  ): token.empty_object {
+    const owner = this.get_ownership().owner;
+    System.require(owner.length > 0, "ownership has been renounced");
+    const isAuthorized = this.check_authority(owner, false, 0);
+    System.require(isAuthorized, "owner has not authorized renounce ownership");
+    this._transfer_ownership(new Uint8Array(0));
+    return new token.empty_object();
+  }
+
+  /**
+   * Pauses transfers, mints, approvals and burns. Only a pauser can pause the token.
+   * @param {token.pause_arguments} args - The arguments for the pause operation.
+   * @returns {token.empty_object}
+   */
+  pause(args: token.pause_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.PAUSER, args.pauser);
+    System.require(isAuthorized, "pauser has not authorized pause");
+    System.require(!this.paused.get()!.value, "token is paused");
+    this._set_paused(true);
+    return new token.empty_object();
+  }
+
+  /**
+   * Unpauses transfers, mints, approvals and burns. Only a pauser can unpause the token.
+   * @param {token.unpause_arguments} args - The arguments for the unpause operation.
+   * @returns {token.empty_object}
+   */
+  unpause(args: token.unpause_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.PAUSER, args.pauser);
+    System.require(isAuthorized, "pauser has not authorized unpause");
+    System.require(this.paused.get()!.value, "token is not paused");
+    this._set_paused(false);
+    return new token.empty_object();
+  }
+
+  /**
+   * Freezes an account so it can neither send nor receive tokens.
+   * Only a pauser can freeze accounts.
+   * @param {token.freeze_account_arguments} args - The arguments for the freeze operation.
+   * @returns {token.empty_object}
+   */
+  freeze_account(args: token.freeze_account_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.PAUSER, args.pauser);
+    System.require(isAuthorized, "pauser has not authorized freeze");
+    this._set_frozen(args.account, true);
+    return new token.empty_object();
+  }
+
+  /**
+   * Unfreezes an account. Only a pauser can unfreeze accounts.
+   * @param {token.unfreeze_account_arguments} args - The arguments for the unfreeze operation.
+   * @returns {token.empty_object}
+   */
+  unfreeze_account(
+    args: token.unfreeze_account_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_role(Roles.PAUSER, args.pauser);
+    System.require(isAuthorized, "pauser has not authorized unfreeze");
+    this._set_frozen(args.account, false);
+    return new token.empty_object();
+  }
+
+  /**
+   * Approves the spender to transfer a specific amount of tokens on behalf of the owner
+   * using a message signed off-chain by the owner.
+   * @param {token.permit_arguments} args - The arguments for the permit operation.
+   * @returns {token.empty_object}
+   */
+  permit(args: token.permit_arguments): token.empty_object {
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    System.require(now <= args.deadline, "permit has expired");
+
+    const message = new token.permit_message(
+      this.contractId,
+      args.owner,
+      args.spender,
+      args.value,
+      args.nonce,
+      args.deadline,
+      Constants.permit_domain
+    );
+    const signer = this.recoverSigner(
+      Protobuf.encode<token.permit_message>(
+        message,
+        token.permit_message.encode
+      ),
+      args.signature
+    );
+    System.require(
+      Arrays.equal(signer, args.owner),
+      "owner has not signed permit"
+    );
+    this.use_nonce(args.owner, args.nonce);
+
+    this._approve(
+      new token.approve_arguments(args.owner, args.spender, args.value)
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Transfers tokens using a message signed off-chain by the sender, so a relayer
+   * can submit the transaction and pay its mana. The optional fee is paid by the
+   * sender to the relayer defined in the message.
+   * @param {token.transfer_with_signature_arguments} args - The arguments for the transfer operation.
+   * @returns {token.empty_object}
+   */
+  transfer_with_signature(
+    args: token.transfer_with_signature_arguments
+  ): token.empty_object {
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    System.require(now <= args.expiration, "signed transfer has expired");
+    System.require(
+      args.fee == 0 || args.relayer.length > 0,
+      "relayer is required to pay a fee"
+    );
+
+    const message = new token.transfer_message(
+      this.contractId,
+      args.from,
+      args.to,
+      args.value,
+      args.nonce,
+      args.expiration,
+      args.relayer,
+      args.fee,
+      Constants.transfer_domain
+    );
+    const signer = this.recoverSigner(
+      Protobuf.encode<token.transfer_message>(
+        message,
+        token.transfer_message.encode
+      ),
+      args.signature
+    );
+    System.require(
+      Arrays.equal(signer, args.from),
+      "from has not signed transfer"
+    );
+    this.use_nonce(args.from, args.nonce);
+
+    this._transfer(
+      new token.transfer_arguments(args.from, args.to, args.value)
+    );
+    if (args.fee > 0) {
+      this._transfer(
+        new token.transfer_arguments(args.from, args.relayer, args.fee)
+      );
+    }
+    return new token.empty_object();
+  }
+
+  /**
+   * Delegates the voting power of an account. An empty delegatee removes the delegation.
+   * @param {token.delegate_arguments} args - The arguments for the delegate operation.
+   * @returns {token.empty_object}
+   */
+  delegate(args: token.delegate_arguments): token.empty_object {
+    const isAuthorized = this.check_authority(args.delegator, false, 0);
+    System.require(isAuthorized, "delegator has not authorized delegate");
+    this._delegate(args.delegator, args.delegatee);
+    return new token.empty_object();
+  }
+
+  /**
+   * Delegates the voting power of an account using a message signed off-chain
+   * by the delegator.
+   * @param {token.delegate_by_signature_arguments} args - The arguments for the delegate operation.
+   * @returns {token.empty_object}
+   */
+  delegate_by_signature(
+    args: token.delegate_by_signature_arguments
+  ): token.empty_object {
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    System.require(now <= args.expiration, "signed delegation has expired");
+
+    const message = new token.delegation_message(
+      this.contractId,
+      args.delegator,
+      args.delegatee,
+      args.nonce,
+      args.expiration,
+      Constants.delegation_domain
+    );
+    const signer = this.recoverSigner(
+      Protobuf.encode<token.delegation_message>(
+        message,
+        token.delegation_message.encode
+      ),
+      args.signature
+    );
+    System.require(
+      Arrays.equal(signer, args.delegator),
+      "delegator has not signed delegation"
+    );
+    this.use_nonce(args.delegator, args.nonce);
+
+    this._delegate(args.delegator, args.delegatee);
+    return new token.empty_object();
+  }
+
+  /**
+   * Creates a vesting schedule for a beneficiary. The tokens are added to the
+   * supply but stay in the vesting schedule, outside of any balance, until they
+   * are released to the beneficiary. Only a minter can create vesting schedules.
+   * @param {token.create_vesting_arguments} args - The arguments for the create vesting operation.
+   * @returns {token.empty_object}
+   */
+  create_vesting(args: token.create_vesting_arguments): token.empty_object {
+    this.require_unwrapped();
+    const minter = this.role_holder(Roles.MINTER, args.minter);
+    System.require(minter != null, "minter has not authorized vesting");
+    System.require(
+      this.mintSigners.get()!.threshold == 0,
+      "mint requires the approval of the mint signers"
+    );
+    this.use_minter_allowance(minter!, args.total);
+    System.require(args.duration > 0, "vesting duration must be positive");
+    System.require(
+      args.cliff <= args.duration,
+      "vesting cliff exceeds duration"
+    );
+    System.require(
+      !this.vestings.has(args.beneficiary),
+      "beneficiary already has a vesting"
+    );
+
+    System.require(!this.paused.get()!.value, "token is paused");
+    this.increase_supply(args.total);
+    this.vestings.put(
+      args.beneficiary,
+      new token.vesting(
+        args.total,
+        0,
+        args.start,
+        args.cliff,
+        args.duration,
+        args.revocable,
+        false
+      )
+    );
+
+    const impacted = [args.beneficiary];
+    const createdEvent = new token.vesting_created_event(
+      args.beneficiary,
+      args.total,
+      args.start,
+      args.cliff,
+      args.duration,
+      args.revocable
+    );
+    System.event(
+      "token.vesting_created",
+      Protobuf.encode<token.vesting_created_event>(
+        createdEvent,
+        token.vesting_created_event.encode
+      ),
+      impacted
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Releases the vested tokens of a beneficiary. Anyone can release them since
+   * they are always sent to the beneficiary.
+   * @param {token.release_arguments} args - The arguments for the release operation.
+   * @returns {token.empty_object}
+   */
+  release(args: token.release_arguments): token.empty_object {
+    const vesting = System.require(
+      this.vestings.get(args.beneficiary),
+      "beneficiary has no vesting"
+    )!;
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    System.require(
+      this.vested_amount(vesting, now) > vesting.released,
+      "no tokens to release"
+    );
+    this._release(args.beneficiary, vesting, now);
+    this.vestings.put(args.beneficiary, vesting);
+    return new token.empty_object();
+  }
+
+  /**
+   * Revokes a revocable vesting schedule. The vested tokens are released to the
+   * beneficiary and the unvested tokens are burned. Only a minter can revoke.
+   * @param {token.revoke_arguments} args - The arguments for the revoke operation.
+   * @returns {token.empty_object}
+   */
+  revoke(args: token.revoke_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.MINTER, args.minter);
+    System.require(isAuthorized, "minter has not authorized revoke");
+    const vesting = System.require(
+      this.vestings.get(args.beneficiary),
+      "beneficiary has no vesting"
+    )!;
+    System.require(vesting.revocable, "vesting is not revocable");
+    System.require(!vesting.revoked, "vesting is already revoked");
+
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    this._release(args.beneficiary, vesting, now);
+    const unvested = vesting.total - vesting.released;
+    vesting.total = vesting.released;
+    vesting.revoked = true;
+    this.vestings.put(args.beneficiary, vesting);
+
+    if (unvested > 0) this.decrease_supply(unvested);
+
+    const impacted = [args.beneficiary];
+    const revokedEvent = new token.vesting_revoked_event(
+      args.beneficiary,
+      unvested
+    );
+    System.event(
+      "token.vesting_revoked",
+      Protobuf.encode<token.vesting_revoked_event>(
+        revokedEvent,
+        token.vesting_revoked_event.encode
+      ),
+      impacted
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the fee charged on transfers, in basis points. Only the owner can set the fee.
+   * @param {token.set_transfer_fee_arguments} args - The arguments for the set fee operation.
+   * @returns {token.empty_object}
+   */
+  set_transfer_fee(args: token.set_transfer_fee_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set transfer fee");
+    System.require(
+      args.fee_bps <= Constants.max_fee_bps,
+      "transfer fee exceeds the maximum"
+    );
+    const feeConfig = this.feeConfig.get()!;
+    feeConfig.fee_bps = args.fee_bps;
+    this.feeConfig.put(feeConfig);
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the treasury receiving the transfer fees. Only the owner can set the treasury.
+   * @param {token.set_treasury_arguments} args - The arguments for the set treasury operation.
+   * @returns {token.empty_object}
+   */
+  set_treasury(args: token.set_treasury_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set treasury");
+    const feeConfig = this.feeConfig.get()!;
+    feeConfig.treasury = args.treasury;
+    this.feeConfig.put(feeConfig);
+    return new token.empty_object();
+  }
+
+  /**
+   * Exempts an account from the transfer fee, or removes its exemption.
+   * Only the owner can set exemptions.
+   * @param {token.set_fee_exempt_arguments} args - The arguments for the set exemption operation.
+   * @returns {token.empty_object}
+   */
+  set_fee_exempt(args: token.set_fee_exempt_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set fee exempt");
+    if (args.exempt) {
+      this.feeExemptions.put(args.account, new token.boole(true));
+    } else {
+      this.feeExemptions.remove(args.account);
+    }
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the fee charged on flash mints, in basis points. Only the owner can set the fee.
+   * @param {token.set_flash_fee_arguments} args - The arguments for the set flash fee operation.
+   * @returns {token.empty_object}
+   */
+  set_flash_fee(args: token.set_flash_fee_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set flash fee");
+    System.require(
+      args.fee_bps <= Constants.max_fee_bps,
+      "flash fee exceeds the maximum"
+    );
+    this.flashFee.put(new token.uint32(args.fee_bps));
+    return new token.empty_object();
+  }
+
+  /**
+   * Mints tokens to a receiver contract and calls its on_flash_mint entry point,
+   * which has to return true. Before the call completes, the amount is burned back
+   * from the receiver and the fee is sent to the treasury, or burned when there is
+   * no treasury. Otherwise the whole operation is reverted. The initiator has to
+   * authorize the flash mint, so the receiver can trust it.
+   * @param {token.flash_mint_arguments} args - The arguments for the flash mint operation.
+   * @returns {token.empty_object}
+   */
+  flash_mint(args: token.flash_mint_arguments): token.empty_object {
+    this.require_unwrapped();
+    const isAuthorized = this.check_authority(args.initiator, false, 0);
+    System.require(isAuthorized, "initiator has not authorized flash mint");
+    System.require(args.amount > 0, "flash mint amount is zero");
+    const fee = u128
+      .muldiv(
+        u128.fromU64(args.amount),
+        u128.fromU64(this.flashFee.get()!.value),
+        u128.fromU64(10000)
+      )
+      .toU64();
+    const initiator = args.initiator;
+
+    this._mint(new token.mint_arguments(args.receiver, args.amount));
+
+    const impacted = [args.receiver];
+    const flashMintEvent = new token.flash_mint_event(
+      initiator,
+      args.receiver,
+      args.amount,
+      fee
+    );
+    System.event(
+      "token.flash_mint",
+      Protobuf.encode<token.flash_mint_event>(
+        flashMintEvent,
+        token.flash_mint_event.encode
+      ),
+      impacted
+    );
+
+    const callback = new token.flash_mint_callback(
+      initiator,
+      args.amount,
+      fee,
+      args.data
+    );
+    this.call_receiver(
+      args.receiver,
+      Constants.on_flash_mint_entry_point,
+      Protobuf.encode(callback, token.flash_mint_callback.encode),
+      "flash mint callback failed"
+    );
+
+    const balance = this.spendable(
+      args.receiver,
+      this.balances.get(args.receiver)!.value
+    );
+    System.require(
+      balance >= args.amount && balance - args.amount >= fee,
+      "flash mint is not repaid"
+    );
+    this._burn(new token.burn_arguments(args.receiver, args.amount));
+
+    const treasury = this.feeConfig.get()!.treasury;
+    if (fee > 0 && treasury.length > 0) {
+      this._transfer_without_fee(
+        new token.transfer_arguments(args.receiver, treasury, fee)
+      );
+    } else if (fee > 0) {
+      this._burn(new token.burn_arguments(args.receiver, fee));
+    }
+
+    const flashRepayEvent = new token.flash_repay_event(
+      args.receiver,
+      args.amount,
+      fee
+    );
+    System.event(
+      "token.flash_repay",
+      Protobuf.encode<token.flash_repay_event>(
+        flashRepayEvent,
+        token.flash_repay_event.encode
+      ),
+      impacted
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Transfers tokens to a contract and calls its on_token_received entry point
+   * with the amount credited after the transfer fee. The transfer is reverted if
+   * the receiver rejects it.
+   * @param {token.transfer_and_call_arguments} args - The arguments for the transfer operation.
+   * @returns {token.empty_object}
+   */
+  transfer_and_call(
+    args: token.transfer_and_call_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_authority(args.from, true, args.value);
+    System.require(isAuthorized, "from has not authorized transfer");
+    const credited = this._transfer(
+      new token.transfer_arguments(args.from, args.to, args.value)
+    );
+
+    const callback = new token.token_received_callback(
+      System.getCaller().caller,
+      args.from,
+      credited,
+      args.data
+    );
+    this.call_receiver(
+      args.to,
+      Constants.on_token_received_entry_point,
+      Protobuf.encode(callback, token.token_received_callback.encode),
+      "receiver has rejected the transfer"
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Approves a contract to spend tokens and calls its on_approval_received entry point.
+   * The approval is reverted if the spender rejects it.
+   * @param {token.approve_and_call_arguments} args - The arguments for the approval operation.
+   * @returns {token.empty_object}
+   */
+  approve_and_call(args: token.approve_and_call_arguments): token.empty_object {
+    const isAuthorized = this.check_authority(args.owner, false, 0);
+    System.require(isAuthorized, "approve operation not authorized");
+    this._approve(
+      new token.approve_arguments(args.owner, args.spender, args.value)
+    );
+
+    const callback = new token.approval_received_callback(
+      args.owner,
+      args.value,
+      args.data
+    );
+    this.call_receiver(
+      args.spender,
+      Constants.on_approval_received_entry_point,
+      Protobuf.encode(callback, token.approval_received_callback.encode),
+      "spender has rejected the approval"
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Holds tokens of an account for a beneficiary. The tokens stay in the balance of
+   * the account but can't be transferred or burned until the hold is captured by the
+   * beneficiary or released. An expiration of 0 means the hold never expires.
+   * @param {token.create_hold_arguments} args - The arguments for the create hold operation.
+   * @returns {token.uint64} The id of the hold.
+   */
+  create_hold(args: token.create_hold_arguments): token.uint64 {
+    const isAuthorized = this.check_authority(args.from, false, 0);
+    System.require(isAuthorized, "from has not authorized hold");
+    System.require(!this.paused.get()!.value, "token is paused");
+    System.require(args.value > 0, "hold value is zero");
+    System.require(args.beneficiary.length > 0, "hold beneficiary is empty");
+    System.require(
+      this.spendable(args.from, this.balances.get(args.from)!.value) >=
+        args.value,
+      "account 'from' has insufficient balance"
+    );
+
+    const holdId = this.holdId.get()!;
+    holdId.value += 1;
+    this.holdId.put(holdId);
+
+    const hold = new token.hold(
+      args.from,
+      args.beneficiary,
+      args.value,
+      args.expiration
+    );
+    this.holds.put(this.id_key(holdId.value), hold);
+    const held = this.heldBalances.get(args.from)!;
+    held.value += args.value;
+    this.heldBalances.put(args.from, held);
+
+    this.hold_event("token.hold_created", holdId.value, hold);
+    return holdId;
+  }
+
+  /**
+   * Transfers the held tokens to the beneficiary. Only the beneficiary can capture
+   * a hold, before it expires.
+   * @param {token.capture_hold_arguments} args - The arguments for the capture hold operation.
+   * @returns {token.empty_object}
+   */
+  capture_hold(args: token.capture_hold_arguments): token.empty_object {
+    const hold = this.holds.get(this.id_key(args.id));
+    System.require(hold != null, "hold does not exist");
+    const isAuthorized = this.check_authority(hold!.beneficiary, false, 0);
+    System.require(isAuthorized, "beneficiary has not authorized capture");
+    if (hold!.expiration > 0) {
+      const now = System.getBlockField("header.timestamp")!.uint64_value;
+      System.require(now < hold!.expiration, "hold has expired");
+    }
+
+    this.remove_hold(args.id, hold!);
+    this._transfer_without_fee(
+      new token.transfer_arguments(hold!.from, hold!.beneficiary, hold!.value)
+    );
+    this.hold_event("token.hold_captured", args.id, hold!);
     return new token.empty_object();
   }
 
   /**
-   * Burns tokens by deducting them from the specified account and reducing the total supply.
-   * This token contract does not have a burn method.
-   * @param {token.burn_arguments} args - The arguments for the burn operation.
+   * Releases the held tokens to their owner. The beneficiary can release a hold at
+   * any time, and anyone can release it once it has expired.
+   * @param {token.release_hold_arguments} args - The arguments for the release hold operation.
    * @returns {token.empty_object}
    */
-  burn(args: token.burn_arguments): token.empty_object {
-    // this token contract does not have burn method
-    // const isAuthorized = this.check_authority(this.contractId, false, 0);
-    // System.require(isAuthorized, "owner has not authorized mint");
-    // this._burn(args);
+  release_hold(args: token.release_hold_arguments): token.empty_object {
+    const hold = this.holds.get(this.id_key(args.id));
+    System.require(hold != null, "hold does not exist");
+    let expired = false;
+    if (hold!.expiration > 0) {
+      const now = System.getBlockField("header.timestamp")!.uint64_value;
+      expired = now >= hold!.expiration;
+    }
+    if (!expired) {
+      const isAuthorized = this.check_authority(hold!.beneficiary, false, 0);
+      System.require(isAuthorized, "beneficiary has not authorized release");
+    }
+
+    this.remove_hold(args.id, hold!);
+    this.hold_event("token.hold_released", args.id, hold!);
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the signers approving mints and their threshold. Once the threshold is set,
+   * tokens are only minted by executing proposals approved by enough signers. Only
+   * the owner can set the mint signers.
+   * @param {token.set_mint_signers_arguments} args - The arguments for the set mint signers operation.
+   * @returns {token.empty_object}
+   */
+  set_mint_signers(args: token.set_mint_signers_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set mint signers");
+    System.require(
+      args.threshold <= <u32>args.signers.length,
+      "threshold exceeds the number of signers"
+    );
+    this.require_distinct(args.signers, "duplicate mint signer");
+    this.mintSigners.put(new token.mint_signers(args.signers, args.threshold));
+    return new token.empty_object();
+  }
+
+  /**
+   * Proposes to mint tokens. The proposal is approved by the proposer, who must
+   * be one of the mint signers.
+   * @param {token.propose_mint_arguments} args - The arguments for the propose mint operation.
+   * @returns {token.uint64} The id of the proposal.
+   */
+  propose_mint(args: token.propose_mint_arguments): token.uint64 {
+    System.require(
+      this.mintSigners.get()!.threshold > 0,
+      "mint signers are not set"
+    );
+
+    const proposalId = this.mintProposalId.get()!;
+    proposalId.value += 1;
+    this.mintProposalId.put(proposalId);
+
+    const proposal = new token.mint_proposal(
+      proposalId.value,
+      args.to,
+      args.value
+    );
+    this.proposal_event("token.mint_proposed", proposal, args.proposer);
+    this.approve_proposal(proposal, args.proposer);
+    return proposalId;
+  }
+
+  /**
+   * Approves a mint proposal. Only a mint signer can approve it, once.
+   * @param {token.approve_mint_arguments} args - The arguments for the approve mint operation.
+   * @returns {token.empty_object}
+   */
+  approve_mint(args: token.approve_mint_arguments): token.empty_object {
+    const proposal = this.mintProposals.get(this.id_key(args.id));
+    System.require(proposal != null, "mint proposal does not exist");
+    this.approve_proposal(proposal!, args.signer);
+    return new token.empty_object();
+  }
+
+  /**
+   * Executes a mint proposal approved by enough signers. Only the approvals of the
+   * current mint signers are counted. Anyone can execute the proposal.
+   * @param {token.execute_mint_arguments} args - The arguments for the execute mint operation.
+   * @returns {token.empty_object}
+   */
+  execute_mint(args: token.execute_mint_arguments): token.empty_object {
+    this.require_unwrapped();
+    const key = this.id_key(args.id);
+    const proposal = this.mintProposals.get(key);
+    System.require(proposal != null, "mint proposal does not exist");
+
+    const mintSigners = this.mintSigners.get()!;
+    let approvals: u32 = 0;
+    for (let i = 0; i < proposal!.approvals.length; i += 1) {
+      if (this.is_mint_signer(mintSigners, proposal!.approvals[i])) {
+        approvals += 1;
+      }
+    }
+    System.require(
+      mintSigners.threshold > 0 && approvals >= mintSigners.threshold,
+      "mint proposal is not approved"
+    );
+
+    this.mintProposals.remove(key);
+    this._mint(new token.mint_arguments(proposal!.to, proposal!.value));
+    this.proposal_event(
+      "token.mint_executed",
+      proposal!,
+      System.getCaller().caller
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the mint allowance of a minter and the maximum amount it can mint per epoch
+   * of `epoch_length` blocks, 0 for no epoch limit. The amount minted in the current
+   * epoch is kept. Only the owner can configure minters.
+   * @param {token.set_minter_config_arguments} args - The arguments for the set minter config operation.
+   * @returns {token.empty_object}
+   */
+  set_minter_config(
+    args: token.set_minter_config_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set minter config");
+
+    let config = this.minterConfigs.get(args.minter);
+    if (!config || config.epoch_length != args.epoch_length) {
+      config = new token.minter_config();
+    }
+    config.allowance = args.allowance;
+    config.epoch_limit = args.epoch_limit;
+    config.epoch_length = args.epoch_length;
+    this.minterConfigs.put(args.minter, config);
+
+    const impacted = [args.minter];
+    const configEvent = new token.minter_config_event(
+      args.minter,
+      args.allowance,
+      args.epoch_limit,
+      args.epoch_length
+    );
+    System.event(
+      "token.minter_configured",
+      Protobuf.encode<token.minter_config_event>(
+        configEvent,
+        token.minter_config_event.encode
+      ),
+      impacted
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the underlying token wrapped by this token. Once it is set, tokens are only
+   * minted and burned by deposits and withdrawals. It can only be changed while the
+   * supply is 0. Only the owner can set the underlying token.
+   * @param {token.set_underlying_arguments} args - The arguments for the set underlying operation.
+   * @returns {token.empty_object}
+   */
+  set_underlying(args: token.set_underlying_arguments): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set underlying");
+    System.require(
+      this.supply.get()!.value == 0,
+      "underlying can only be set while the supply is 0"
+    );
+    System.require(
+      !Arrays.equal(args.underlying, this.contractId),
+      "token can't wrap itself"
+    );
+    this.underlying.put(new token.address(args.underlying));
+    return new token.empty_object();
+  }
+
+  /**
+   * Transfers underlying tokens from an account to the contract and mints the
+   * amount received by the contract, after any fee of the underlying token, to the
+   * account.
+   * @param {token.deposit_arguments} args - The arguments for the deposit operation.
+   * @returns {token.empty_object}
+   */
+  deposit(args: token.deposit_arguments): token.empty_object {
+    const underlying = this.underlying.get()!.value;
+    System.require(underlying.length > 0, "token is not a wrapper");
+    const isAuthorized = this.check_authority(args.from, false, 0);
+    System.require(isAuthorized, "from has not authorized deposit");
+
+    const balanceBefore = this.underlying_balance(underlying);
+    this.transfer_underlying(underlying, args.from, this.contractId, args.value);
+    const received = SafeMath.sub(
+      this.underlying_balance(underlying),
+      balanceBefore,
+      "underlying balance has decreased"
+    );
+    this._mint(new token.mint_arguments(args.from, received));
+
+    const impacted = [args.from];
+    const depositEvent = new token.underlying_event(args.from, received);
+    System.event(
+      "token.deposit",
+      Protobuf.encode<token.underlying_event>(
+        depositEvent,
+        token.underlying_event.encode
+      ),
+      impacted
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Burns wrapped tokens of an account and transfers the same amount of underlying
+   * tokens from the contract to the account.
+   * @param {token.withdraw_arguments} args - The arguments for the withdraw operation.
+   * @returns {token.empty_object}
+   */
+  withdraw(args: token.withdraw_arguments): token.empty_object {
+    const underlying = this.underlying.get()!.value;
+    System.require(underlying.length > 0, "token is not a wrapper");
+    const isAuthorized = this.check_authority(args.from, true, args.value);
+    System.require(isAuthorized, "from has not authorized withdraw");
+
+    this._burn(new token.burn_arguments(args.from, args.value));
+    this.transfer_underlying(underlying, this.contractId, args.from, args.value);
+
+    const impacted = [args.from];
+    const withdrawEvent = new token.underlying_event(args.from, args.value);
+    System.event(
+      "token.withdraw",
+      Protobuf.encode<token.underlying_event>(
+        withdrawEvent,
+        token.underlying_event.encode
+      ),
+      impacted
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the validators attesting bridge transfers and the number of signatures
+   * required to mint bridged tokens, 0 to disable the bridge. Only the owner can
+   * set the validators.
+   * @param {token.set_bridge_validators_arguments} args - The arguments for the set bridge validators operation.
+   * @returns {token.empty_object}
+   */
+  set_bridge_validators(
+    args: token.set_bridge_validators_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(
+      isAuthorized,
+      "owner has not authorized set bridge validators"
+    );
+    System.require(
+      args.threshold <= <u32>args.validators.length,
+      "threshold exceeds the number of validators"
+    );
+    this.require_distinct(args.validators, "duplicate bridge validator");
+    this.bridgeValidators.put(
+      new token.bridge_validators(args.validators, args.threshold)
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Burns tokens to bridge them to a recipient on another chain. The validators
+   * attest the transfer from the bridge_out event.
+   * @param {token.bridge_out_arguments} args - The arguments for the bridge out operation.
+   * @returns {token.uint64} The id of the outgoing transfer.
+   */
+  bridge_out(args: token.bridge_out_arguments): token.uint64 {
+    this.require_unwrapped();
+    System.require(
+      this.bridgeValidators.get()!.threshold > 0,
+      "bridge is disabled"
+    );
+    System.require(args.recipient.length > 0, "bridge recipient is empty");
+    const isAuthorized = this.check_authority(args.from, true, args.value);
+    System.require(isAuthorized, "from has not authorized bridge out");
+
+    this._burn(new token.burn_arguments(args.from, args.value));
+
+    const bridgeOutId = this.bridgeOutId.get()!;
+    bridgeOutId.value += 1;
+    this.bridgeOutId.put(bridgeOutId);
+
+    const impacted = [args.from];
+    const bridgeOutEvent = new token.bridge_out_event(
+      bridgeOutId.value,
+      args.from,
+      args.value,
+      args.destination_chain,
+      args.recipient
+    );
+    System.event(
+      "token.bridge_out",
+      Protobuf.encode<token.bridge_out_event>(
+        bridgeOutEvent,
+        token.bridge_out_event.encode
+      ),
+      impacted
+    );
+    return bridgeOutId;
+  }
+
+  /**
+   * Mints tokens bridged from another chain. The attestation must be signed by at
+   * least the threshold of validators, and it can only be processed once. Bridged
+   * tokens can't be minted while minting requires the mint signers.
+   * @param {token.bridge_in_arguments} args - The arguments for the bridge in operation.
+   * @returns {token.empty_object}
+   */
+  bridge_in(args: token.bridge_in_arguments): token.empty_object {
+    this.require_unwrapped();
+    const bridgeValidators = this.bridgeValidators.get()!;
+    System.require(bridgeValidators.threshold > 0, "bridge is disabled");
+    System.require(
+      this.mintSigners.get()!.threshold == 0,
+      "mint requires the approval of the mint signers"
+    );
+    System.require(args.attestation != null, "attestation is missing");
+    const attestation = args.attestation!;
+    System.require(
+      Arrays.equal(attestation.contract_id, this.contractId),
+      "attestation is for another contract"
+    );
+    System.require(attestation.id.length > 0, "attestation id is empty");
+    System.require(
+      !this.bridgeAttestations.has(attestation.id),
+      "attestation has already been processed"
+    );
+
+    const message = Protobuf.encode(
+      attestation,
+      token.bridge_attestation.encode
+    );
+    System.require(
+      this.count_validators(bridgeValidators, message, args.signatures) >=
+        bridgeValidators.threshold,
+      "attestation is not signed by enough validators"
+    );
+
+    this.bridgeAttestations.put(attestation.id, new token.boole(true));
+    this._mint(
+      new token.mint_arguments(attestation.recipient, attestation.value)
+    );
+
+    const impacted = [attestation.recipient];
+    const bridgeInEvent = new token.bridge_in_event(
+      attestation.id,
+      attestation.source_chain,
+      attestation.recipient,
+      attestation.value
+    );
+    System.event(
+      "token.bridge_in",
+      Protobuf.encode<token.bridge_in_event>(
+        bridgeInEvent,
+        token.bridge_in_event.encode
+      ),
+      impacted
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the time in milliseconds that staked tokens are locked before they can be
+   * unstaked, 0 to unstake at any time. Only the owner can set the cooldown.
+   * @param {token.set_stake_cooldown_arguments} args - The arguments for the set stake cooldown operation.
+   * @returns {token.empty_object}
+   */
+  set_stake_cooldown(
+    args: token.set_stake_cooldown_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set stake cooldown");
+    const staking = this.staking.get()!;
+    staking.cooldown = args.cooldown;
+    this.staking.put(staking);
+    return new token.empty_object();
+  }
+
+  /**
+   * Sets the time in milliseconds over which notified rewards are distributed to
+   * the stakers. It applies from the next notification. Only the owner can set the
+   * reward duration.
+   * @param {token.set_reward_duration_arguments} args - The arguments for the set reward duration operation.
+   * @returns {token.empty_object}
+   */
+  set_reward_duration(
+    args: token.set_reward_duration_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(
+      isAuthorized,
+      "owner has not authorized set reward duration"
+    );
+    System.require(args.duration > 0, "reward duration is zero");
+    const staking = this.updated_staking();
+    staking.reward_duration = args.duration;
+    this.staking.put(staking);
+    return new token.empty_object();
+  }
+
+  /**
+   * Stakes tokens of an account to earn rewards. Staked tokens leave the balance
+   * of the account and its votes, and staking again restarts the cooldown.
+   * @param {token.stake_arguments} args - The arguments for the stake operation.
+   * @returns {token.empty_object}
+   */
+  stake(args: token.stake_arguments): token.empty_object {
+    System.require(args.value > 0, "stake value is zero");
+    const isAuthorized = this.check_authority(args.from, false, 0);
+    System.require(isAuthorized, "from has not authorized stake");
+
+    this.debit_balance(args.from, args.value);
+    this.move_votes(
+      this.delegates.get(args.from)!.value,
+      new Uint8Array(0),
+      args.value
+    );
+
+    const staking = this.updated_staking();
+    const stake = this.updated_stake(args.from, staking);
+    stake.value += args.value;
+    stake.staked_at = System.getBlockField("header.timestamp")!.uint64_value;
+    this.put_stake(args.from, stake);
+    staking.total_staked += args.value;
+    this.staking.put(staking);
+
+    this.staking_event("token.staked", args.from, args.value);
+    return new token.empty_object();
+  }
+
+  /**
+   * Unstakes tokens of an account once the cooldown has elapsed, returning them to
+   * its balance. The rewards earned so far remain claimable.
+   * @param {token.unstake_arguments} args - The arguments for the unstake operation.
+   * @returns {token.empty_object}
+   */
+  unstake(args: token.unstake_arguments): token.empty_object {
+    System.require(!this.paused.get()!.value, "token is paused");
+    const isAuthorized = this.check_authority(args.from, false, 0);
+    System.require(isAuthorized, "from has not authorized unstake");
+
+    System.require(
+      !this.frozen.get(args.from)!.value,
+      "account 'to' is frozen"
+    );
+
+    const staking = this.updated_staking();
+    const stake = this.updated_stake(args.from, staking);
+    System.require(stake.value >= args.value, "insufficient staked balance");
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    System.require(
+      now >= stake.staked_at + staking.cooldown,
+      "unstake cooldown has not elapsed"
+    );
+
+    stake.value -= args.value;
+    this.put_stake(args.from, stake);
+    staking.total_staked -= args.value;
+    this.staking.put(staking);
+
+    this.credit_balance(args.from, args.value);
+    this.move_votes(
+      new Uint8Array(0),
+      this.delegates.get(args.from)!.value,
+      args.value
+    );
+
+    this.staking_event("token.unstaked", args.from, args.value);
+    return new token.empty_object();
+  }
+
+  /**
+   * Claims the staking rewards of an account, adding them to its balance.
+   * @param {token.claim_rewards_arguments} args - The arguments for the claim rewards operation.
+   * @returns {token.uint64} The amount of rewards claimed.
+   */
+  claim_rewards(args: token.claim_rewards_arguments): token.uint64 {
+    System.require(!this.paused.get()!.value, "token is paused");
+    const isAuthorized = this.check_authority(args.account, false, 0);
+    System.require(isAuthorized, "account has not authorized claim rewards");
+
+    System.require(
+      !this.frozen.get(args.account)!.value,
+      "account 'to' is frozen"
+    );
+
+    const staking = this.updated_staking();
+    const stake = this.updated_stake(args.account, staking);
+    const rewards = stake.rewards;
+    if (rewards == 0) return new token.uint64(0);
+
+    stake.rewards = 0;
+    this.put_stake(args.account, stake);
+    staking.reward_pool -= rewards;
+    this.staking.put(staking);
+
+    this.credit_balance(args.account, rewards);
+    this.move_votes(
+      new Uint8Array(0),
+      this.delegates.get(args.account)!.value,
+      rewards
+    );
+
+    this.staking_event("token.rewards_claimed", args.account, rewards);
+    return new token.uint64(rewards);
+  }
+
+  /**
+   * Distributes tokens of an account as rewards to the stakers, linearly over the
+   * reward duration and in proportion to their stakes over time. The rewards not
+   * distributed yet are added to the new period. The rounding remainder stays in
+   * the reward pool.
+   * @param {token.notify_reward_amount_arguments} args - The arguments for the notify reward amount operation.
+   * @returns {token.empty_object}
+   */
+  notify_reward_amount(
+    args: token.notify_reward_amount_arguments
+  ): token.empty_object {
+    System.require(args.value > 0, "reward value is zero");
+    const isAuthorized = this.check_authority(args.from, false, 0);
+    System.require(
+      isAuthorized,
+      "from has not authorized notify reward amount"
+    );
+
+    const staking = this.updated_staking();
+    System.require(staking.total_staked > 0, "there are no staked tokens");
+
+    this.debit_balance(args.from, args.value);
+    this.move_votes(
+      this.delegates.get(args.from)!.value,
+      new Uint8Array(0),
+      args.value
+    );
+
+    const now = System.getBlockField("header.timestamp")!.uint64_value;
+    staking.reward_remaining += args.value;
+    staking.reward_pool += args.value;
+    staking.period_finish = now + staking.reward_duration;
+    staking.last_update = now;
+    this.staking.put(staking);
+
+    this.staking_event("token.reward_added", args.from, args.value);
+    return new token.empty_object();
+  }
+
+  /**
+   * Starts an airdrop from the Merkle root of its leaves, replacing the current
+   * one. Claims are minted up to the total of the airdrop. Only the owner can set
+   * the airdrop root.
+   * @param {token.set_airdrop_root_arguments} args - The arguments for the set airdrop root operation.
+   * @returns {token.empty_object}
+   */
+  set_airdrop_root(
+    args: token.set_airdrop_root_arguments
+  ): token.empty_object {
+    const isAuthorized = this.check_role(Roles.OWNER);
+    System.require(isAuthorized, "owner has not authorized set airdrop root");
+    System.require(args.root.length == 32, "airdrop root must be 32 bytes");
+
+    const airdrop = this.airdrop.get()!;
+    this.airdrop.put(
+      new token.airdrop(airdrop.id + 1, args.root, args.total, 0)
+    );
+    return new token.empty_object();
+  }
+
+  /**
+   * Claims the tokens of an airdrop leaf and mints them to its account. The leaf
+   * is the sha256 digest of the encoded airdrop_leaf, and each leaf can only be
+   * claimed once. Anyone can submit the claim of an account. Airdrops can't be
+   * claimed while minting requires the mint signers.
+   * @param {token.claim_airdrop_arguments} args - The arguments for the claim airdrop operation.
+   * @returns {token.empty_object}
+   */
+  claim_airdrop(args: token.claim_airdrop_arguments): token.empty_object {
+    this.require_unwrapped();
+    const airdrop = this.airdrop.get()!;
+    System.require(airdrop.root.length > 0, "airdrop is not set");
+    System.require(
+      this.mintSigners.get()!.threshold == 0,
+      "mint requires the approval of the mint signers"
+    );
+
+    const key = this.claim_key(airdrop.id, args.index);
+    const word = this.airdropClaims.get(key)!;
+    const bit = <u64>1 << (args.index % 64);
+    System.require((word.value & bit) == 0, "airdrop has already been claimed");
+
+    const leaf = this.sha256(
+      Protobuf.encode(
+        new token.airdrop_leaf(args.index, args.account, args.amount),
+        token.airdrop_leaf.encode
+      )
+    );
+    const root = this.merkle_root(leaf, args.index, args.proof);
+    System.require(Arrays.equal(root, airdrop.root), "invalid airdrop proof");
+    System.require(
+      args.amount <= airdrop.total - airdrop.claimed,
+      "airdrop total exceeded"
+    );
+
+    word.value |= bit;
+    this.airdropClaims.put(key, word);
+    airdrop.claimed += args.amount;
+    this.airdrop.put(airdrop);
+
+    this._mint(new token.mint_arguments(args.account, args.amount));
+
+    const impacted = [args.account];
+    const claimedEvent = new token.airdrop_claimed_event(
+      args.index,
+      args.account,
+      args.amount
+    );
+    System.event(
+      "token.airdrop_claimed",
+      Protobuf.encode<token.airdrop_claimed_event>(
+        claimedEvent,
+        token.airdrop_claimed_event.encode
+      ),
+      impacted
+    );
     return new token.empty_object();
   }
 }
@@ -5,20 +5,96 @@ import {
   Protobuf,
   authority,
   chain,
+  protocol,
   System,
+  system_calls,
+  system_call_ids,
 } from "@koinos/sdk-as";
 import { Token } from "../Token";
 import { token } from "../proto/token";
+import { Roles } from "../Roles";
+import { Constants } from "../Constants";
+
+// system call counters of the test runner, see as-pect.config.js
+@external("env", "resetSystemCallCounts")
+declare function resetSystemCallCounts(): void;
+@external("env", "getSystemCallCount")
+declare function getSystemCallCount(id: u32): u32;
+@external("env", "getSystemCallArgumentsSize")
+declare function getSystemCallArgumentsSize(id: u32): u32;
+@external("env", "readSystemCallArguments")
+declare function readSystemCallArguments(id: u32, ptr: usize): void;
+
+// result of a balance_of call to an underlying token
+function underlyingBalance(value: u64): system_calls.exit_arguments {
+  return new system_calls.exit_arguments(
+    0,
+    new chain.result(
+      Protobuf.encode(new token.uint64(value), token.uint64.encode)
+    )
+  );
+}
+
+// arguments of the last contract call made by the token
+function lastCallArguments(): system_calls.call_arguments {
+  const id = system_call_ids.system_call_id.call;
+  const bytes = new Uint8Array(getSystemCallArgumentsSize(id));
+  readSystemCallArguments(id, bytes.dataStart);
+  return Protobuf.decode<system_calls.call_arguments>(
+    bytes,
+    system_calls.call_arguments.decode
+  );
+}
 
 const CONTRACT_ID = Base58.decode("1DQzuCcTKacbs9GGScRTU1Hc8BsyARTPqe");
 const MOCK_ACCT1 = Base58.decode("1DQzuCcTKacbs9GGScRTU1Hc8BsyARTPqG");
 const MOCK_ACCT2 = Base58.decode("1DQzuCcTKacbs9GGScRTU1Hc8BsyARTPqK");
 const CONTRACT_EMPTY = Base58.decode("");
 
+// account derived from the seed "owner", used to sign messages off-chain
+const SIGNER_ACCT = Base58.decode("1Fj8GVwfV6GnjpqN7t8GvxugKN4SAyER9X");
+// transaction signed by SIGNER_ACCT
+const TRANSACTION_ID =
+  "1220ce922519a3c3ecaf9b0986c2449c7680895c15f4b0e9818e994e14a4d28b6aaf";
+const TRANSACTION_SIGNATURE =
+  "20d2c14e72de6a18ce77c8ccafbb63c648ae53c4c08e9466a8bc4357c41cbbd1c71a30232481b8dbd0e6efe32cfe9ff14b309520fea90d48693584d4d7c66c5b30";
+const PERMIT_SIGNATURE =
+  "20fa369a13e0c6f4c005003d6deca03c027a2f5ca395de9ae5d1e78ec8ee2f7bb347205969ad439270946079bcb3c0568cbd7045fd52346c60fd2db0014866b42d";
+const TRANSFER_SIGNATURE =
+  "1f11b95d07cf169dfce1110997986259c4714a13fbfe93e18aa3cf1a6db9969a4267d04262e139ccb8fcebad0c3318bf38eef14b00e9af12f7a79eeac2b76acfab";
+const DELEGATION_SIGNATURE =
+  "1f3c7fb31713d0238bf7fb1528917651ccafcd23c693c9ce2e659c7a32a0d9571d4a6f3ba09b10d723f28d6db482a09515e740dcd8c281a655397da404ca631aa5";
+// validators derived from the seeds "validator1", "validator2" and "validator3",
+// signing an attestation of 700 tokens bridged to MOCK_ACCT1 from chain 1
+const VALIDATOR_ACCT1 = Base58.decode("1A1osZ7588YtQGro5XpDfX1Zi1PnYSTFYX");
+const VALIDATOR_ACCT2 = Base58.decode("18fcRvmNbwtqkbdh2nCVjWEUnAERhVpYFs");
+const VALIDATOR_ACCT3 = Base58.decode("1Q8KdAgQMWsWRaK5aHNSMoqFfxRjutC65e");
+const ATTESTATION_ID = Arrays.fromHexString("01020304");
+const ATTESTATION_SIGNATURE1 =
+  "20d3ddee461a400ded5766486163193ae6df478bf9a94bf070e1cc276471dd5de0770d2726162bd904f4997ddb449f40cdb696a61d36d748d3eb51eb184aba2fac";
+const ATTESTATION_SIGNATURE2 =
+  "1f385e32a0984fb64baf3acf6c8d17c158f17367925a99ed3274382f5482edc4151b66fec012da60d8d390b3ca9481bad5f48460cd300cfb445b4d4df03b49c1c1";
+const ATTESTATION_SIGNATURE3 =
+  "206eee4762d525bb334efaa1370b732d93e3c552bba918fabb4797b02f85d77994090b05036e932546fe782068bf615a378e757cc2247ed6cb300976acc52a0a31";
+// Merkle tree of the airdrop leaves (0, MOCK_ACCT1, 100), (1, MOCK_ACCT2, 200),
+// (2, SIGNER_ACCT, 300) and (3, VALIDATOR_ACCT1, 400), with the proof of leaf 1
+const AIRDROP_ROOT =
+  "8719a880cdcdce1c537b0628effdaf1a68dc01ebc31128cf432a67c5b8ab827d";
+const AIRDROP_PROOF1 =
+  "0200a3612fec4863f8f96732d8e90a7526de32942a7efe7f4f4a2a02429ff9e5";
+const AIRDROP_PROOF2 =
+  "fd73e85c74a3152b42dde708f18650ebd5ff290ba0c77bfc2a5230374535a861";
+
 describe("token", () => {
   beforeEach(() => {
     MockVM.reset();
     MockVM.setContractId(CONTRACT_ID);
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 1000)
+      )
+    );
   });
 
   it("should get the name", () => {
@@ -528,4 +604,3039 @@ describe("token", () => {
     let balanceRes = tkn.balance_of(balanceArgs);
     expect(balanceRes.value).toBe(123);
   });
+
+  it("should burn tokens", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    const mintArgs = new token.mint_arguments(MOCK_ACCT1, 123);
+    tkn.mint(mintArgs);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    // burn tokens
+    const burnArgs = new token.burn_arguments(MOCK_ACCT1, 23);
+    tkn.burn(burnArgs);
+
+    // check balance
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    const balanceRes = tkn.balance_of(balanceArgs);
+    expect(balanceRes.value).toBe(100);
+
+    // check total supply
+    const totalSupplyArgs = new token.total_supply_arguments();
+    const totalSupplyRes = tkn.total_supply(totalSupplyArgs);
+    expect(totalSupplyRes.value).toBe(100);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(2);
+    expect(events[1].name).toBe("token.burn");
+    expect(events[1].impacted.length).toBe(1);
+    expect(Arrays.equal(events[1].impacted[0], MOCK_ACCT1)).toBe(true);
+
+    const burnEvent = Protobuf.decode<token.burn_event>(
+      events[1].data,
+      token.burn_event.decode
+    );
+    expect(Arrays.equal(burnEvent.from, MOCK_ACCT1)).toBe(true);
+    expect(burnEvent.value).toBe(23);
+  });
+
+  it("should/not burn if approved and allowance is/not sufficient", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    const mintArgs = new token.mint_arguments(MOCK_ACCT1, 1000);
+    tkn.mint(mintArgs);
+
+    // set caller before approve
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    // approve MOCK_ACCT2 to spend tokens of MOCK_ACCT1
+    const approveArgs = new token.approve_arguments(
+      MOCK_ACCT1,
+      MOCK_ACCT2,
+      500
+    );
+    tkn.approve(approveArgs);
+
+    // burn tokens as the spender
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+    const burnArgs = new token.burn_arguments(MOCK_ACCT1, 300);
+    tkn.burn(burnArgs);
+
+    // check allowance
+    const allowanceArgs = new token.allowance_arguments(MOCK_ACCT1, MOCK_ACCT2);
+    const allowanceRes = tkn.allowance(allowanceArgs);
+    expect(allowanceRes.value).toBe(200);
+
+    // save the MockVM state because the burn is going to revert the transaction
+    MockVM.commitTransaction();
+
+    // try to burn tokens without enough allowance
+    expect(() => {
+      const tkn = new Token();
+      const burnArgs = new token.burn_arguments(MOCK_ACCT1, 300);
+      tkn.burn(burnArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "from has not authorized burn"
+    );
+
+    // check balance
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    const balanceRes = tkn.balance_of(balanceArgs);
+    expect(balanceRes.value).toBe(700);
+
+    // check total supply
+    const totalSupplyArgs = new token.total_supply_arguments();
+    const totalSupplyRes = tkn.total_supply(totalSupplyArgs);
+    expect(totalSupplyRes.value).toBe(700);
+  });
+
+  it("should not burn if unsufficient balance", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    const mintArgs = new token.mint_arguments(MOCK_ACCT1, 123);
+    tkn.mint(mintArgs);
+
+    // save the MockVM state because the burn is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      MockVM.setCaller(
+        new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+      );
+      // try to burn tokens
+      const burnArgs = new token.burn_arguments(MOCK_ACCT1, 456);
+      tkn.burn(burnArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "account 'from' has insufficient balance"
+    );
+
+    // check balance
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    const balanceRes = tkn.balance_of(balanceArgs);
+    expect(balanceRes.value).toBe(123);
+  });
+
+  it("should grant, revoke and renounce roles", () => {
+    const tkn = new Token();
+
+    // the contract account implicitly has every role
+    let hasRoleArgs = new token.has_role_arguments(Roles.MINTER, CONTRACT_ID);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(true);
+
+    hasRoleArgs = new token.has_role_arguments(Roles.MINTER, MOCK_ACCT1);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(false);
+
+    // set caller before grant
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // grant minter and pauser roles
+    tkn.grant_role(new token.grant_role_arguments(Roles.MINTER, MOCK_ACCT1));
+    tkn.grant_role(new token.grant_role_arguments(Roles.PAUSER, MOCK_ACCT1));
+    expect(tkn.has_role(hasRoleArgs).value).toBe(true);
+    tkn.set_minter_config(
+      new token.set_minter_config_arguments(MOCK_ACCT1, 123, 0, 0)
+    );
+
+    // mint tokens as minter
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 123));
+
+    MockVM.commitTransaction();
+
+    // a minter can't burn the tokens of another account without an allowance
+    expect(() => {
+      const tkn = new Token();
+      tkn.burn(new token.burn_arguments(MOCK_ACCT2, 23));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "from has not authorized burn"
+    );
+
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(123);
+
+    // renounce pauser role
+    tkn.renounce_role(
+      new token.renounce_role_arguments(Roles.PAUSER, MOCK_ACCT1)
+    );
+    hasRoleArgs = new token.has_role_arguments(Roles.PAUSER, MOCK_ACCT1);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(false);
+
+    // revoke minter role
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.revoke_role(new token.revoke_role_arguments(Roles.MINTER, MOCK_ACCT1));
+    hasRoleArgs = new token.has_role_arguments(Roles.MINTER, MOCK_ACCT1);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(false);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(6);
+    expect(events[0].name).toBe("token.role_granted");
+    expect(events[1].name).toBe("token.role_granted");
+    expect(events[4].name).toBe("token.role_revoked");
+    expect(events[5].name).toBe("token.role_revoked");
+
+    const roleEvent = Protobuf.decode<token.role_event>(
+      events[5].data,
+      token.role_event.decode
+    );
+    expect(roleEvent.role).toBe(Roles.MINTER);
+    expect(Arrays.equal(roleEvent.account, MOCK_ACCT1)).toBe(true);
+
+    // save the MockVM state because the mint is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      MockVM.setCaller(
+        new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+      );
+      tkn.mint(new token.mint_arguments(MOCK_ACCT2, 123));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "minter has not authorized mint"
+    );
+
+    // only the defined roles can be granted
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.grant_role(
+        new token.grant_role_arguments(Roles.PAUSER + 1, MOCK_ACCT1)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("invalid role");
+  });
+
+  it("should not grant roles if not owner", () => {
+    const tkn = new Token();
+
+    // save the MockVM state because the grant is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      MockVM.setCaller(
+        new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+      );
+      tkn.grant_role(new token.grant_role_arguments(Roles.MINTER, MOCK_ACCT1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "owner has not authorized grant role"
+    );
+
+    const hasRoleArgs = new token.has_role_arguments(Roles.MINTER, MOCK_ACCT1);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(false);
+  });
+
+  it("should not transfer tokens while paused", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 123));
+
+    // pause the token
+    tkn.pause(new token.pause_arguments());
+    expect(tkn.is_paused(new token.is_paused_arguments()).value).toBe(true);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(2);
+    expect(events[1].name).toBe("token.paused");
+    const pauseEvent = Protobuf.decode<token.pause_event>(
+      events[1].data,
+      token.pause_event.decode
+    );
+    expect(pauseEvent.value).toBe(true);
+
+    // save the MockVM state because the transfer is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      MockVM.setCaller(
+        new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+      );
+      const transferArgs = new token.transfer_arguments(
+        MOCK_ACCT1,
+        MOCK_ACCT2,
+        10
+      );
+      tkn.transfer(transferArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("token is paused");
+
+    // unpause the token and transfer
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.unpause(new token.unpause_arguments());
+    expect(tkn.is_paused(new token.is_paused_arguments()).value).toBe(false);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 10));
+
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(10);
+  });
+
+  it("should not transfer tokens to or from frozen accounts", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 123));
+
+    // freeze MOCK_ACCT2
+    tkn.freeze_account(new token.freeze_account_arguments(MOCK_ACCT2));
+    let isFrozenArgs = new token.is_frozen_arguments(MOCK_ACCT2);
+    expect(tkn.is_frozen(isFrozenArgs).value).toBe(true);
+    isFrozenArgs = new token.is_frozen_arguments(MOCK_ACCT1);
+    expect(tkn.is_frozen(isFrozenArgs).value).toBe(false);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(2);
+    expect(events[1].name).toBe("token.frozen");
+    expect(Arrays.equal(events[1].impacted[0], MOCK_ACCT2)).toBe(true);
+    const freezeEvent = Protobuf.decode<token.freeze_event>(
+      events[1].data,
+      token.freeze_event.decode
+    );
+    expect(Arrays.equal(freezeEvent.account, MOCK_ACCT2)).toBe(true);
+    expect(freezeEvent.value).toBe(true);
+
+    // save the MockVM state because the transfer is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      MockVM.setCaller(
+        new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+      );
+      const transferArgs = new token.transfer_arguments(
+        MOCK_ACCT1,
+        MOCK_ACCT2,
+        10
+      );
+      tkn.transfer(transferArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("account 'to' is frozen");
+
+    // unfreeze MOCK_ACCT2 and transfer
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.unfreeze_account(new token.unfreeze_account_arguments(MOCK_ACCT2));
+    isFrozenArgs = new token.is_frozen_arguments(MOCK_ACCT2);
+    expect(tkn.is_frozen(isFrozenArgs).value).toBe(false);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 10));
+
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(10);
+  });
+
+  it("should approve tokens with a permit signed by the owner", () => {
+    const tkn = new Token();
+
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 1000)
+      )
+    );
+
+    // permit signed off-chain by SIGNER_ACCT for MOCK_ACCT2 (value 500, nonce 0, deadline 2000)
+    const permitArgs = new token.permit_arguments(
+      SIGNER_ACCT,
+      MOCK_ACCT2,
+      500,
+      0,
+      2000,
+      Arrays.fromHexString(PERMIT_SIGNATURE)
+    );
+    tkn.permit(permitArgs);
+
+    // check allowance
+    const allowanceArgs = new token.allowance_arguments(SIGNER_ACCT, MOCK_ACCT2);
+    expect(tkn.allowance(allowanceArgs).value).toBe(500);
+
+    // check nonce
+    const nonceArgs = new token.nonce_of_arguments(SIGNER_ACCT);
+    expect(tkn.nonce_of(nonceArgs).value).toBe(1);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(1);
+    expect(events[0].name).toBe("token.approve");
+
+    // save the MockVM state because the permit is going to revert the transaction
+    MockVM.commitTransaction();
+
+    // try to replay the permit
+    expect(() => {
+      const tkn = new Token();
+      const permitArgs = new token.permit_arguments(
+        SIGNER_ACCT,
+        MOCK_ACCT2,
+        500,
+        0,
+        2000,
+        Arrays.fromHexString(PERMIT_SIGNATURE)
+      );
+      tkn.permit(permitArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("invalid nonce");
+  });
+
+  it("should not approve tokens with an expired or forged permit", () => {
+    const tkn = new Token();
+
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 3000)
+      )
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      const permitArgs = new token.permit_arguments(
+        SIGNER_ACCT,
+        MOCK_ACCT2,
+        500,
+        0,
+        2000,
+        Arrays.fromHexString(PERMIT_SIGNATURE)
+      );
+      tkn.permit(permitArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("permit has expired");
+
+    // the signature does not match a different value
+    expect(() => {
+      const tkn = new Token();
+      const permitArgs = new token.permit_arguments(
+        SIGNER_ACCT,
+        MOCK_ACCT2,
+        501,
+        0,
+        4000,
+        Arrays.fromHexString(PERMIT_SIGNATURE)
+      );
+      tkn.permit(permitArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "owner has not signed permit"
+    );
+
+    const allowanceArgs = new token.allowance_arguments(SIGNER_ACCT, MOCK_ACCT2);
+    expect(tkn.allowance(allowanceArgs).value).toBe(0);
+  });
+
+  it("should not transfer tokens with a permit signature", () => {
+    const tkn = new Token();
+
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 1000)
+      )
+    );
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(SIGNER_ACCT, 1000));
+
+    MockVM.commitTransaction();
+
+    // the permit for MOCK_ACCT2 (value 500, nonce 0, deadline 2000) has the same
+    // fields as a signed transfer without relayer, but a different domain
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer_with_signature(
+        new token.transfer_with_signature_arguments(
+          SIGNER_ACCT,
+          MOCK_ACCT2,
+          500,
+          0,
+          2000,
+          new Uint8Array(0),
+          0,
+          Arrays.fromHexString(PERMIT_SIGNATURE)
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "from has not signed transfer"
+    );
+
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(0);
+  });
+
+  it("should transfer tokens with a signature of the sender", () => {
+    const tkn = new Token();
+
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 1000)
+      )
+    );
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(SIGNER_ACCT, 123));
+
+    // transfer signed off-chain by SIGNER_ACCT and relayed by MOCK_ACCT1
+    // (to MOCK_ACCT2, value 100, nonce 0, expiration 2000, fee 5)
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    const transferArgs = new token.transfer_with_signature_arguments(
+      SIGNER_ACCT,
+      MOCK_ACCT2,
+      100,
+      0,
+      2000,
+      MOCK_ACCT1,
+      5,
+      Arrays.fromHexString(TRANSFER_SIGNATURE)
+    );
+    tkn.transfer_with_signature(transferArgs);
+
+    // check balances
+    let balanceArgs = new token.balance_of_arguments(SIGNER_ACCT);
+    expect(tkn.balance_of(balanceArgs).value).toBe(18);
+
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(100);
+
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    expect(tkn.balance_of(balanceArgs).value).toBe(5);
+
+    // check nonce
+    const nonceArgs = new token.nonce_of_arguments(SIGNER_ACCT);
+    expect(tkn.nonce_of(nonceArgs).value).toBe(1);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(3);
+    expect(events[1].name).toBe("token.transfer");
+    expect(events[2].name).toBe("token.transfer");
+
+    const transferEvent = Protobuf.decode<token.transfer_event>(
+      events[2].data,
+      token.transfer_event.decode
+    );
+    expect(Arrays.equal(transferEvent.from, SIGNER_ACCT)).toBe(true);
+    expect(Arrays.equal(transferEvent.to, MOCK_ACCT1)).toBe(true);
+    expect(transferEvent.value).toBe(5);
+
+    // save the MockVM state because the transfer is going to revert the transaction
+    MockVM.commitTransaction();
+
+    // try to relay the transfer with a different fee
+    expect(() => {
+      const tkn = new Token();
+      const transferArgs = new token.transfer_with_signature_arguments(
+        SIGNER_ACCT,
+        MOCK_ACCT2,
+        100,
+        1,
+        2000,
+        MOCK_ACCT1,
+        10,
+        Arrays.fromHexString(TRANSFER_SIGNATURE)
+      );
+      tkn.transfer_with_signature(transferArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "from has not signed transfer"
+    );
+  });
+
+  it("should batch transfer tokens", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 123));
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    // batch transfer tokens
+    const batchArgs = new token.batch_transfer_arguments(MOCK_ACCT1, [
+      new token.transfer_entry(MOCK_ACCT2, 10),
+      new token.transfer_entry(CONTRACT_ID, 20),
+    ]);
+    tkn.batch_transfer(batchArgs);
+
+    // check balances
+    let balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    expect(tkn.balance_of(balanceArgs).value).toBe(93);
+
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(10);
+
+    balanceArgs = new token.balance_of_arguments(CONTRACT_ID);
+    expect(tkn.balance_of(balanceArgs).value).toBe(20);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(3);
+    expect(events[1].name).toBe("token.transfer");
+    expect(events[2].name).toBe("token.transfer");
+
+    const transferEvent = Protobuf.decode<token.transfer_event>(
+      events[2].data,
+      token.transfer_event.decode
+    );
+    expect(Arrays.equal(transferEvent.from, MOCK_ACCT1)).toBe(true);
+    expect(Arrays.equal(transferEvent.to, CONTRACT_ID)).toBe(true);
+    expect(transferEvent.value).toBe(20);
+  });
+
+  it("should not batch transfer if the total exceeds the balance", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 123));
+
+    // save the MockVM state because the transfer is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      MockVM.setCaller(
+        new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+      );
+      const batchArgs = new token.batch_transfer_arguments(MOCK_ACCT1, [
+        new token.transfer_entry(MOCK_ACCT2, 100),
+        new token.transfer_entry(CONTRACT_ID, 100),
+      ]);
+      tkn.batch_transfer(batchArgs);
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "account 'from' has insufficient balance"
+    );
+
+    // check balances
+    let balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    expect(tkn.balance_of(balanceArgs).value).toBe(123);
+
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(0);
+  });
+
+  it("should get balances and total supply at a block height", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens at height 10
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 123));
+
+    // transfer tokens at height 20
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 20, 2000)
+      )
+    );
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 10));
+
+    // burn tokens at height 30
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 30, 3000)
+      )
+    );
+    tkn.burn(new token.burn_arguments(MOCK_ACCT1, 13));
+
+    // check balances of MOCK_ACCT1
+    let balanceArgs = new token.balance_of_at_arguments(MOCK_ACCT1, 9);
+    expect(tkn.balance_of_at(balanceArgs).value).toBe(0);
+    balanceArgs = new token.balance_of_at_arguments(MOCK_ACCT1, 10);
+    expect(tkn.balance_of_at(balanceArgs).value).toBe(123);
+    balanceArgs = new token.balance_of_at_arguments(MOCK_ACCT1, 25);
+    expect(tkn.balance_of_at(balanceArgs).value).toBe(113);
+    balanceArgs = new token.balance_of_at_arguments(MOCK_ACCT1, 35);
+    expect(tkn.balance_of_at(balanceArgs).value).toBe(100);
+
+    // check balances of MOCK_ACCT2
+    balanceArgs = new token.balance_of_at_arguments(MOCK_ACCT2, 15);
+    expect(tkn.balance_of_at(balanceArgs).value).toBe(0);
+    balanceArgs = new token.balance_of_at_arguments(MOCK_ACCT2, 20);
+    expect(tkn.balance_of_at(balanceArgs).value).toBe(10);
+
+    // check total supply
+    let supplyArgs = new token.total_supply_at_arguments(15);
+    expect(tkn.total_supply_at(supplyArgs).value).toBe(123);
+    supplyArgs = new token.total_supply_at_arguments(30);
+    expect(tkn.total_supply_at(supplyArgs).value).toBe(110);
+  });
+
+  it("should delegate votes and move them with balances", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens at height 10
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 100));
+
+    // delegate votes of MOCK_ACCT1 to MOCK_ACCT2
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.delegate(new token.delegate_arguments(MOCK_ACCT1, MOCK_ACCT2));
+
+    const delegatesArgs = new token.delegates_of_arguments(MOCK_ACCT1);
+    expect(
+      Arrays.equal(tkn.delegates_of(delegatesArgs).value, MOCK_ACCT2)
+    ).toBe(true);
+
+    let votesArgs = new token.get_votes_arguments(MOCK_ACCT2);
+    expect(tkn.get_votes(votesArgs).value).toBe(100);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(3);
+    expect(events[1].name).toBe("token.delegate_changed");
+    expect(events[2].name).toBe("token.votes_changed");
+
+    const votesEvent = Protobuf.decode<token.votes_changed_event>(
+      events[2].data,
+      token.votes_changed_event.decode
+    );
+    expect(Arrays.equal(votesEvent.delegate, MOCK_ACCT2)).toBe(true);
+    expect(votesEvent.previous_votes).toBe(0);
+    expect(votesEvent.new_votes).toBe(100);
+
+    // transfer tokens to an account without delegate at height 20
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 20, 2000)
+      )
+    );
+    tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, CONTRACT_ID, 30));
+
+    votesArgs = new token.get_votes_arguments(MOCK_ACCT2);
+    expect(tkn.get_votes(votesArgs).value).toBe(70);
+
+    let pastVotesArgs = new token.get_past_votes_arguments(MOCK_ACCT2, 15);
+    expect(tkn.get_past_votes(pastVotesArgs).value).toBe(100);
+    pastVotesArgs = new token.get_past_votes_arguments(MOCK_ACCT2, 20);
+    expect(tkn.get_past_votes(pastVotesArgs).value).toBe(70);
+
+    // remove the delegation
+    tkn.delegate(new token.delegate_arguments(MOCK_ACCT1, new Uint8Array(0)));
+    votesArgs = new token.get_votes_arguments(MOCK_ACCT2);
+    expect(tkn.get_votes(votesArgs).value).toBe(0);
+  });
+
+  it("should delegate votes with a signature of the delegator", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(SIGNER_ACCT, 50));
+
+    // delegation signed off-chain by SIGNER_ACCT to MOCK_ACCT2 (nonce 0, expiration 2000)
+    const delegateArgs = new token.delegate_by_signature_arguments(
+      SIGNER_ACCT,
+      MOCK_ACCT2,
+      0,
+      2000,
+      Arrays.fromHexString(DELEGATION_SIGNATURE)
+    );
+    tkn.delegate_by_signature(delegateArgs);
+
+    const votesArgs = new token.get_votes_arguments(MOCK_ACCT2);
+    expect(tkn.get_votes(votesArgs).value).toBe(50);
+
+    const nonceArgs = new token.nonce_of_arguments(SIGNER_ACCT);
+    expect(tkn.nonce_of(nonceArgs).value).toBe(1);
+  });
+
+  it("should create, release and revoke vesting schedules", () => {
+    const tkn = new Token();
+
+    // set caller before create vesting
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // the transfer fee is not charged on releases
+    tkn.set_transfer_fee(new token.set_transfer_fee_arguments(100));
+    tkn.set_treasury(new token.set_treasury_arguments(MOCK_ACCT2));
+
+    // create a vesting schedule starting at 1000 with a cliff of 1000 over 4000
+    const createArgs = new token.create_vesting_arguments(
+      MOCK_ACCT1,
+      1000,
+      1000,
+      1000,
+      4000,
+      true
+    );
+    tkn.create_vesting(createArgs);
+
+    // the tokens are in the supply, but not in the balance of the contract account
+    let balanceArgs = new token.balance_of_arguments(CONTRACT_ID);
+    expect(tkn.balance_of(balanceArgs).value).toBe(0);
+    const totalSupplyArgs = new token.total_supply_arguments();
+    expect(tkn.total_supply(totalSupplyArgs).value).toBe(1000);
+
+    MockVM.commitTransaction();
+
+    // the contract account can't spend the unvested tokens
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer(
+        new token.transfer_arguments(CONTRACT_ID, MOCK_ACCT2, 1000)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "account 'from' has insufficient balance"
+    );
+
+    // nothing is releasable before the cliff
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 20, 1500)
+      )
+    );
+    const releasableArgs = new token.releasable_of_arguments(MOCK_ACCT1);
+    expect(tkn.releasable_of(releasableArgs).value).toBe(0);
+
+    // half of the tokens are vested in the middle of the duration
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 30, 3000)
+      )
+    );
+    expect(tkn.releasable_of(releasableArgs).value).toBe(500);
+
+    tkn.release(new token.release_arguments(MOCK_ACCT1));
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    expect(tkn.balance_of(balanceArgs).value).toBe(500);
+    expect(tkn.releasable_of(releasableArgs).value).toBe(0);
+
+    // revoke the vesting schedule
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 40, 4000)
+      )
+    );
+    tkn.revoke(new token.revoke_arguments(MOCK_ACCT1));
+
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    expect(tkn.balance_of(balanceArgs).value).toBe(750);
+    balanceArgs = new token.balance_of_arguments(CONTRACT_ID);
+    expect(tkn.balance_of(balanceArgs).value).toBe(0);
+    expect(tkn.total_supply(totalSupplyArgs).value).toBe(750);
+
+    const vesting = tkn.vesting_of(new token.vesting_of_arguments(MOCK_ACCT1));
+    expect(vesting.total).toBe(750);
+    expect(vesting.released).toBe(750);
+    expect(vesting.revoked).toBe(true);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events[0].name).toBe("token.vesting_created");
+    expect(events[events.length - 1].name).toBe("token.vesting_revoked");
+
+    const revokedEvent = Protobuf.decode<token.vesting_revoked_event>(
+      events[events.length - 1].data,
+      token.vesting_revoked_event.decode
+    );
+    expect(Arrays.equal(revokedEvent.beneficiary, MOCK_ACCT1)).toBe(true);
+    expect(revokedEvent.value).toBe(250);
+  });
+
+  it("should not revoke an irrevocable vesting schedule", () => {
+    const tkn = new Token();
+
+    // set caller before create vesting
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    const createArgs = new token.create_vesting_arguments(
+      MOCK_ACCT1,
+      1000,
+      1000,
+      0,
+      4000,
+      false
+    );
+    tkn.create_vesting(createArgs);
+
+    // save the MockVM state because the revoke is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.revoke(new token.revoke_arguments(MOCK_ACCT1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("vesting is not revocable");
+
+    const vesting = tkn.vesting_of(new token.vesting_of_arguments(MOCK_ACCT1));
+    expect(vesting.total).toBe(1000);
+    expect(vesting.revoked).toBe(false);
+  });
+
+  it("should charge the transfer fee to the treasury", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 2000));
+
+    // set a fee of 1% sent to CONTRACT_ID
+    tkn.set_transfer_fee(new token.set_transfer_fee_arguments(100));
+    tkn.set_treasury(new token.set_treasury_arguments(CONTRACT_ID));
+
+    const feeConfig = tkn.get_fee_config(new token.get_fee_config_arguments());
+    expect(feeConfig.fee_bps).toBe(100);
+    expect(Arrays.equal(feeConfig.treasury, CONTRACT_ID)).toBe(true);
+
+    // transfer tokens
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 1000));
+
+    // check balances
+    let balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    expect(tkn.balance_of(balanceArgs).value).toBe(1000);
+
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(990);
+
+    balanceArgs = new token.balance_of_arguments(CONTRACT_ID);
+    expect(tkn.balance_of(balanceArgs).value).toBe(10);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(3);
+    expect(events[1].name).toBe("token.transfer");
+    expect(events[2].name).toBe("token.fee");
+
+    const transferEvent = Protobuf.decode<token.transfer_event>(
+      events[1].data,
+      token.transfer_event.decode
+    );
+    expect(transferEvent.value).toBe(990);
+
+    const feeEvent = Protobuf.decode<token.fee_event>(
+      events[2].data,
+      token.fee_event.decode
+    );
+    expect(Arrays.equal(feeEvent.from, MOCK_ACCT1)).toBe(true);
+    expect(Arrays.equal(feeEvent.treasury, CONTRACT_ID)).toBe(true);
+    expect(feeEvent.value).toBe(10);
+
+    // exempt MOCK_ACCT2 from the fee
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_fee_exempt(new token.set_fee_exempt_arguments(MOCK_ACCT2, true));
+    const isFeeExemptArgs = new token.is_fee_exempt_arguments(MOCK_ACCT2);
+    expect(tkn.is_fee_exempt(isFeeExemptArgs).value).toBe(true);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 1000));
+
+    balanceArgs = new token.balance_of_arguments(MOCK_ACCT2);
+    expect(tkn.balance_of(balanceArgs).value).toBe(1990);
+
+    balanceArgs = new token.balance_of_arguments(CONTRACT_ID);
+    expect(tkn.balance_of(balanceArgs).value).toBe(10);
+  });
+
+  it("should not set a transfer fee above the maximum", () => {
+    const tkn = new Token();
+
+    // save the MockVM state because the set fee is going to revert the transaction
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      MockVM.setCaller(
+        new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+      );
+      tkn.set_transfer_fee(new token.set_transfer_fee_arguments(1001));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "transfer fee exceeds the maximum"
+    );
+
+    const feeConfig = tkn.get_fee_config(new token.get_fee_config_arguments());
+    expect(feeConfig.fee_bps).toBe(0);
+  });
+
+  it("should get holders and allowances", () => {
+    const tkn = new Token();
+
+    // set caller before mint
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // mint tokens
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 100));
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 200));
+    tkn.mint(new token.mint_arguments(CONTRACT_ID, 300));
+
+    // empty the balance of CONTRACT_ID, which removes it
+    tkn.burn(new token.burn_arguments(CONTRACT_ID, 300));
+    expect(tkn.balances.has(CONTRACT_ID)).toBe(false);
+
+    // get all holders
+    let holders = tkn.get_holders(
+      new token.get_holders_arguments(new Uint8Array(0), 10)
+    );
+    expect(holders.value.length).toBe(2);
+
+    // get holders page by page
+    holders = tkn.get_holders(
+      new token.get_holders_arguments(new Uint8Array(0), 1)
+    );
+    expect(holders.value.length).toBe(1);
+    const first = holders.value[0];
+
+    holders = tkn.get_holders(new token.get_holders_arguments(first.owner, 1));
+    expect(holders.value.length).toBe(1);
+    const second = holders.value[0];
+    expect(Arrays.equal(first.owner, second.owner)).toBe(false);
+    expect(first.value + second.value).toBe(300);
+
+    holders = tkn.get_holders(new token.get_holders_arguments(second.owner, 1));
+    expect(holders.value.length).toBe(0);
+
+    // get holders in descending order
+    holders = tkn.get_holders(
+      new token.get_holders_arguments(
+        new Uint8Array(0),
+        10,
+        token.direction.descending
+      )
+    );
+    expect(holders.value.length).toBe(2);
+    expect(Arrays.equal(holders.value[0].owner, second.owner)).toBe(true);
+
+    // approve allowances
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.approve(new token.approve_arguments(MOCK_ACCT1, MOCK_ACCT2, 10));
+    tkn.approve(new token.approve_arguments(MOCK_ACCT1, CONTRACT_ID, 20));
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+    tkn.approve(new token.approve_arguments(MOCK_ACCT2, MOCK_ACCT1, 30));
+
+    let allowances = tkn.get_allowances(
+      new token.get_allowances_arguments(MOCK_ACCT1, new Uint8Array(0), 10)
+    );
+    expect(allowances.value.length).toBe(2);
+    expect(allowances.value[0].value + allowances.value[1].value).toBe(30);
+
+    allowances = tkn.get_allowances(
+      new token.get_allowances_arguments(
+        MOCK_ACCT1,
+        allowances.value[0].spender,
+        10
+      )
+    );
+    expect(allowances.value.length).toBe(1);
+
+    allowances = tkn.get_allowances(
+      new token.get_allowances_arguments(MOCK_ACCT2, new Uint8Array(0), 10)
+    );
+    expect(allowances.value.length).toBe(1);
+    expect(Arrays.equal(allowances.value[0].spender, MOCK_ACCT1)).toBe(true);
+    expect(allowances.value[0].value).toBe(30);
+  });
+
+  it("should increase and decrease allowances", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    // increase from an empty allowance
+    tkn.increase_allowance(
+      new token.increase_allowance_arguments(MOCK_ACCT1, MOCK_ACCT2, 300)
+    );
+    tkn.increase_allowance(
+      new token.increase_allowance_arguments(MOCK_ACCT1, MOCK_ACCT2, 200)
+    );
+
+    const allowanceArgs = new token.allowance_arguments(MOCK_ACCT1, MOCK_ACCT2);
+    expect(tkn.allowance(allowanceArgs).value).toBe(500);
+
+    tkn.decrease_allowance(
+      new token.decrease_allowance_arguments(MOCK_ACCT1, MOCK_ACCT2, 150)
+    );
+    expect(tkn.allowance(allowanceArgs).value).toBe(350);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(3);
+    expect(events[2].name).toBe("token.approve");
+    const approveEvent = Protobuf.decode<token.approve_event>(
+      events[2].data!,
+      token.approve_event.decode
+    );
+    expect(approveEvent.value).toBe(350);
+
+    MockVM.commitTransaction();
+
+    // try to decrease below zero
+    expect(() => {
+      const tkn = new Token();
+      tkn.decrease_allowance(
+        new token.decrease_allowance_arguments(MOCK_ACCT1, MOCK_ACCT2, 351)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "decreased allowance below zero"
+    );
+
+    // try to increase the allowance of another owner
+    expect(() => {
+      const tkn = new Token();
+      tkn.increase_allowance(
+        new token.increase_allowance_arguments(MOCK_ACCT2, MOCK_ACCT1, 100)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "approve operation not authorized"
+    );
+  });
+
+  it("should treat expired allowances as zero", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    // allowance expiring at timestamp 2000
+    tkn.approve(
+      new token.approve_arguments(MOCK_ACCT1, CONTRACT_ID, 500, 2000, 0)
+    );
+    // allowance expiring at block height 20
+    tkn.approve(
+      new token.approve_arguments(MOCK_ACCT1, MOCK_ACCT2, 400, 0, 20)
+    );
+
+    const byTime = new token.allowance_arguments(MOCK_ACCT1, CONTRACT_ID);
+    const byHeight = new token.allowance_arguments(MOCK_ACCT1, MOCK_ACCT2);
+    expect(tkn.allowance(byTime).value).toBe(500);
+    expect(tkn.allowance(byHeight).value).toBe(400);
+
+    // increasing keeps the expiration
+    tkn.increase_allowance(
+      new token.increase_allowance_arguments(MOCK_ACCT1, CONTRACT_ID, 100)
+    );
+    expect(tkn.allowance(byTime).value).toBe(600);
+
+    // move past the timestamp expiration
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 2000)
+      )
+    );
+    expect(tkn.allowance(byTime).value).toBe(0);
+    expect(tkn.allowance(byHeight).value).toBe(400);
+
+    MockVM.commitTransaction();
+
+    // an expired allowance can't be increased
+    expect(() => {
+      const tkn = new Token();
+      tkn.increase_allowance(
+        new token.increase_allowance_arguments(MOCK_ACCT1, CONTRACT_ID, 100)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "allowance has expired, approve a new one"
+    );
+    expect(tkn.allowance(byTime).value).toBe(0);
+
+    let allowances = tkn.get_allowances(
+      new token.get_allowances_arguments(MOCK_ACCT1, new Uint8Array(0), 10)
+    );
+    expect(allowances.value.length).toBe(1);
+    expect(Arrays.equal(allowances.value[0].spender, MOCK_ACCT2)).toBe(true);
+
+    // move past the height expiration
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 20, 2000)
+      )
+    );
+    expect(tkn.allowance(byHeight).value).toBe(0);
+
+    allowances = tkn.get_allowances(
+      new token.get_allowances_arguments(MOCK_ACCT1, new Uint8Array(0), 10)
+    );
+    expect(allowances.value.length).toBe(0);
+
+    // mint tokens to spend
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+
+    MockVM.commitTransaction();
+
+    // try to spend the expired allowance
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 100));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "from has not authorized transfer"
+    );
+  });
+
+  it("should initialize the token metadata only once", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    tkn.initialize(
+      new token.initialize_arguments("Koin Dollar", "KUSD", 6, 1000, MOCK_ACCT1)
+    );
+
+    expect(tkn.name(new token.name_arguments()).value).toBe("Koin Dollar");
+    expect(tkn.symbol(new token.symbol_arguments()).value).toBe("KUSD");
+    expect(tkn.decimals(new token.decimals_arguments()).value).toBe(6);
+
+    const info = tkn.get_info(new token.get_info_arguments());
+    expect(info.name).toBe("Koin Dollar");
+    expect(info.symbol).toBe("KUSD");
+    expect(info.decimals).toBe(6);
+
+    // the initial owner can grant roles
+    const hasRoleArgs = new token.has_role_arguments(Roles.OWNER, MOCK_ACCT1);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(true);
+
+    // the max supply is read from storage
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 1000));
+
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT2, 1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("mint would overflow supply");
+
+    // try to initialize again
+    expect(() => {
+      const tkn = new Token();
+      tkn.initialize(
+        new token.initialize_arguments("Other", "OTH", 8, 1000, MOCK_ACCT2)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "token is already initialized"
+    );
+
+    // try to initialize without the owner authority
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.initialize(
+        new token.initialize_arguments("Other", "OTH", 8, 1000, MOCK_ACCT2)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "owner has not authorized initialize"
+    );
+  });
+
+  it("should transfer, accept and renounce the ownership", () => {
+    const tkn = new Token();
+
+    // the contract account is the owner by default
+    expect(
+      Arrays.equal(tkn.owner(new token.owner_arguments()).value, CONTRACT_ID)
+    ).toBe(true);
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.transfer_ownership(new token.transfer_ownership_arguments(MOCK_ACCT1));
+
+    // the ownership is not transferred until it is accepted
+    expect(
+      Arrays.equal(tkn.owner(new token.owner_arguments()).value, CONTRACT_ID)
+    ).toBe(true);
+    expect(
+      Arrays.equal(
+        tkn.pending_owner(new token.pending_owner_arguments()).value,
+        MOCK_ACCT1
+      )
+    ).toBe(true);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.accept_ownership(new token.accept_ownership_arguments());
+
+    expect(
+      Arrays.equal(tkn.owner(new token.owner_arguments()).value, MOCK_ACCT1)
+    ).toBe(true);
+    expect(
+      tkn.pending_owner(new token.pending_owner_arguments()).value.length
+    ).toBe(0);
+
+    // the contract account no longer has the owner role
+    let hasRoleArgs = new token.has_role_arguments(Roles.OWNER, CONTRACT_ID);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(false);
+
+    // the new owner can mint
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 100));
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(100);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(2);
+    expect(events[0].name).toBe("token.ownership_transferred");
+    const ownershipEvent = Protobuf.decode<token.ownership_transferred_event>(
+      events[0].data!,
+      token.ownership_transferred_event.decode
+    );
+    expect(Arrays.equal(ownershipEvent.previous_owner, CONTRACT_ID)).toBe(
+      true
+    );
+    expect(Arrays.equal(ownershipEvent.new_owner, MOCK_ACCT1)).toBe(true);
+
+    tkn.renounce_ownership(new token.renounce_ownership_arguments());
+    expect(tkn.owner(new token.owner_arguments()).value.length).toBe(0);
+
+    hasRoleArgs = new token.has_role_arguments(Roles.OWNER, MOCK_ACCT1);
+    expect(tkn.has_role(hasRoleArgs).value).toBe(false);
+
+    MockVM.commitTransaction();
+
+    // the owner functions are locked
+    expect(() => {
+      const tkn = new Token();
+      tkn.grant_role(new token.grant_role_arguments(Roles.MINTER, MOCK_ACCT1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "owner has not authorized grant role"
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer_ownership(
+        new token.transfer_ownership_arguments(MOCK_ACCT1)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "ownership has been renounced"
+    );
+  });
+
+  it("should not accept the ownership if not the pending owner", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.transfer_ownership(new token.transfer_ownership_arguments(MOCK_ACCT1));
+
+    MockVM.commitTransaction();
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.accept_ownership(new token.accept_ownership_arguments());
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "pending owner has not authorized accept ownership"
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer_ownership(
+        new token.transfer_ownership_arguments(MOCK_ACCT2)
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "owner has not authorized transfer ownership"
+    );
+  });
+
+  it("should authorize upgrades and calls with the owner authority", () => {
+    // the contract account is SIGNER_ACCT, which signed the transaction
+    MockVM.setContractId(SIGNER_ACCT);
+    MockVM.setTransaction(
+      new protocol.transaction(
+        Arrays.fromHexString(TRANSACTION_ID),
+        null,
+        [],
+        [Arrays.fromHexString(TRANSACTION_SIGNATURE)]
+      )
+    );
+    const tkn = new Token();
+
+    const uploadArgs = new authority.authorize_arguments(
+      authority.authorization_type.contract_upload
+    );
+    const callArgs = new authority.authorize_arguments(
+      authority.authorization_type.contract_call
+    );
+    const applicationArgs = new authority.authorize_arguments(
+      authority.authorization_type.transaction_application
+    );
+
+    // the contract account is the owner by default
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_EMPTY, chain.privilege.user_mode)
+    );
+    expect(tkn.authorize(uploadArgs).value).toBe(true);
+    expect(tkn.authorize(callArgs).value).toBe(true);
+
+    tkn.transfer_ownership(new token.transfer_ownership_arguments(MOCK_ACCT1));
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.accept_ownership(new token.accept_ownership_arguments());
+
+    // the new owner controls upgrades and calls with its own authority
+    MockVM.setAuthorities([
+      new MockVM.MockAuthority(
+        authority.authorization_type.contract_upload,
+        MOCK_ACCT1,
+        true
+      ),
+      new MockVM.MockAuthority(
+        authority.authorization_type.contract_call,
+        MOCK_ACCT1,
+        true
+      ),
+    ]);
+    expect(tkn.authorize(uploadArgs).value).toBe(true);
+    expect(tkn.authorize(callArgs).value).toBe(true);
+
+    // the signature of the contract account only authorizes the other operations
+    MockVM.setAuthorities([
+      new MockVM.MockAuthority(
+        authority.authorization_type.contract_upload,
+        MOCK_ACCT1,
+        false
+      ),
+      new MockVM.MockAuthority(
+        authority.authorization_type.contract_call,
+        MOCK_ACCT1,
+        false
+      ),
+    ]);
+    expect(tkn.authorize(uploadArgs).value).toBe(false);
+    expect(tkn.authorize(callArgs).value).toBe(false);
+    expect(tkn.authorize(applicationArgs).value).toBe(true);
+
+    // the contract calling itself does not authorize anything
+    MockVM.setTransaction(
+      new protocol.transaction(Arrays.fromHexString(TRANSACTION_ID), null, [], [])
+    );
+    MockVM.setCaller(
+      new chain.caller_data(SIGNER_ACCT, chain.privilege.user_mode)
+    );
+    expect(tkn.authorize(applicationArgs).value).toBe(false);
+
+    // upgrades are locked once the ownership is renounced
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.renounce_ownership(new token.renounce_ownership_arguments());
+    expect(tkn.authorize(uploadArgs).value).toBe(false);
+    expect(tkn.authorize(callArgs).value).toBe(false);
+  });
+
+  it("should check the authority with the chain instead of recovering signatures", () => {
+    const tkn = new Token();
+
+    // mint tokens
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+
+    MockVM.setTransaction(
+      new protocol.transaction(
+        Arrays.fromHexString(TRANSACTION_ID),
+        null,
+        [],
+        [Arrays.fromHexString(TRANSACTION_SIGNATURE)]
+      )
+    );
+
+    // MOCK_ACCT1 is authorized by the chain, as a smart wallet would be
+    MockVM.setAuthorities([
+      new MockVM.MockAuthority(
+        authority.authorization_type.contract_call,
+        MOCK_ACCT1,
+        true
+      ),
+    ]);
+
+    // no caller
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_EMPTY, chain.privilege.user_mode)
+    );
+
+    // matching the signers costs a public key recovery per signature
+    resetSystemCallCounts();
+    expect(tkn.getSigners().length).toBe(1);
+    expect(
+      getSystemCallCount(system_call_ids.system_call_id.recover_public_key)
+    ).toBe(1);
+
+    // the transfer and the approval ask the chain once instead
+    resetSystemCallCounts();
+    tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 100));
+    expect(
+      getSystemCallCount(system_call_ids.system_call_id.recover_public_key)
+    ).toBe(0);
+    expect(
+      getSystemCallCount(system_call_ids.system_call_id.check_authority)
+    ).toBe(1);
+
+    resetSystemCallCounts();
+    tkn.approve(new token.approve_arguments(MOCK_ACCT1, MOCK_ACCT2, 50));
+    expect(
+      getSystemCallCount(system_call_ids.system_call_id.recover_public_key)
+    ).toBe(0);
+    expect(
+      getSystemCallCount(system_call_ids.system_call_id.check_authority)
+    ).toBe(1);
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(100);
+    expect(
+      tkn.allowance(new token.allowance_arguments(MOCK_ACCT1, MOCK_ACCT2))
+        .value
+    ).toBe(50);
+
+    MockVM.commitTransaction();
+
+    // the chain does not authorize MOCK_ACCT2
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer(new token.transfer_arguments(MOCK_ACCT2, MOCK_ACCT1, 100));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "from has not authorized transfer"
+    );
+  });
+
+  it("should not authorize the contract account through the chain", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(CONTRACT_ID, 1000));
+
+    // the transaction is not signed by the contract account, but the chain
+    // would authorize it by calling its authorize entry point
+    MockVM.setTransaction(
+      new protocol.transaction(
+        Arrays.fromHexString(TRANSACTION_ID),
+        null,
+        [],
+        [Arrays.fromHexString(TRANSACTION_SIGNATURE)]
+      )
+    );
+    MockVM.setAuthorities([
+      new MockVM.MockAuthority(
+        authority.authorization_type.contract_call,
+        CONTRACT_ID,
+        true
+      ),
+    ]);
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_EMPTY, chain.privilege.user_mode)
+    );
+
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer(new token.transfer_arguments(CONTRACT_ID, MOCK_ACCT1, 1000));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "from has not authorized transfer"
+    );
+
+    // the contract account is the owner by default
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "minter has not authorized mint"
+    );
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(CONTRACT_ID)).value
+    ).toBe(1000);
+  });
+
+  it("should check the authority of the named role holder with the chain", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.grant_role(new token.grant_role_arguments(Roles.MINTER, MOCK_ACCT2));
+    tkn.set_minter_config(
+      new token.set_minter_config_arguments(MOCK_ACCT2, 100, 0, 0)
+    );
+
+    // MOCK_ACCT2 is a smart wallet authorized by the chain, without a caller
+    MockVM.setTransaction(
+      new protocol.transaction(
+        Arrays.fromHexString(TRANSACTION_ID),
+        null,
+        [],
+        [Arrays.fromHexString(TRANSACTION_SIGNATURE)]
+      )
+    );
+    MockVM.setAuthorities([
+      new MockVM.MockAuthority(
+        authority.authorization_type.contract_call,
+        MOCK_ACCT2,
+        true
+      ),
+    ]);
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_EMPTY, chain.privilege.user_mode)
+    );
+
+    MockVM.commitTransaction();
+
+    // without a caller, a minter that is not named is not looked up
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT1, 100));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "minter has not authorized mint"
+    );
+
+    // only the authority of the named minter is checked
+    resetSystemCallCounts();
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 100, MOCK_ACCT2));
+    expect(
+      getSystemCallCount(system_call_ids.system_call_id.check_authority)
+    ).toBe(1);
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(100);
+    expect(
+      tkn.minter_allowance_of(new token.minter_allowance_of_arguments(MOCK_ACCT2))
+        .value
+    ).toBe(0);
+  });
+
+  it("should flash mint and burn back the amount with a fee", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // the receiver holds enough tokens to pay the fee
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 10));
+    tkn.set_flash_fee(new token.set_flash_fee_arguments(100));
+    tkn.set_treasury(new token.set_treasury_arguments(MOCK_ACCT1));
+    expect(tkn.get_flash_fee(new token.get_flash_fee_arguments()).value).toBe(
+      100
+    );
+
+    // the receiver accepts the flash mint
+    MockVM.setCallContractResults([
+      new system_calls.exit_arguments(
+        0,
+        new chain.result(
+          Protobuf.encode(new token.boole(true), token.boole.encode)
+        )
+      ),
+    ]);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.flash_mint(
+      new token.flash_mint_arguments(
+        MOCK_ACCT1,
+        MOCK_ACCT2,
+        1000,
+        new Uint8Array(0)
+      )
+    );
+
+    // the receiver is told who initiated the flash mint
+    const callback = Protobuf.decode<token.flash_mint_callback>(
+      lastCallArguments().args,
+      token.flash_mint_callback.decode
+    );
+    expect(Arrays.equal(callback.initiator, MOCK_ACCT1)).toBe(true);
+
+    // check balances and supply
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(0);
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(10);
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(
+      10
+    );
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(6);
+    expect(events[2].name).toBe("token.flash_mint");
+    expect(events[5].name).toBe("token.flash_repay");
+    const flashMintEvent = Protobuf.decode<token.flash_mint_event>(
+      events[2].data!,
+      token.flash_mint_event.decode
+    );
+    expect(Arrays.equal(flashMintEvent.initiator, MOCK_ACCT1)).toBe(true);
+    expect(Arrays.equal(flashMintEvent.receiver, MOCK_ACCT2)).toBe(true);
+    expect(flashMintEvent.amount).toBe(1000);
+    expect(flashMintEvent.fee).toBe(10);
+  });
+
+  it("should not flash mint without the initiator, if the callback fails or the fee is not repaid", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_flash_fee(new token.set_flash_fee_arguments(100));
+
+    MockVM.commitTransaction();
+
+    // try to flash mint on behalf of another account
+    expect(() => {
+      const tkn = new Token();
+      tkn.flash_mint(
+        new token.flash_mint_arguments(
+          MOCK_ACCT1,
+          MOCK_ACCT2,
+          1000,
+          new Uint8Array(0)
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "initiator has not authorized flash mint"
+    );
+
+    // the receiver rejects the flash mint
+    MockVM.setCallContractResults([
+      new system_calls.exit_arguments(
+        0,
+        new chain.result(
+          Protobuf.encode(new token.boole(false), token.boole.encode)
+        )
+      ),
+    ]);
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.flash_mint(
+        new token.flash_mint_arguments(
+          CONTRACT_ID,
+          MOCK_ACCT2,
+          1000,
+          new Uint8Array(0)
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "flash mint callback failed"
+    );
+
+    // the receiver accepts the flash mint but can't pay the fee
+    MockVM.setCallContractResults([
+      new system_calls.exit_arguments(
+        0,
+        new chain.result(
+          Protobuf.encode(new token.boole(true), token.boole.encode)
+        )
+      ),
+    ]);
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.flash_mint(
+        new token.flash_mint_arguments(
+          CONTRACT_ID,
+          MOCK_ACCT2,
+          1000,
+          new Uint8Array(0)
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("flash mint is not repaid");
+
+    // the supply is unchanged
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(0);
+  });
+
+  it("should transfer and approve with a receiver call", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+
+    // the receiver accepts both operations
+    const accepted = new system_calls.exit_arguments(
+      0,
+      new chain.result(
+        Protobuf.encode(new token.boole(true), token.boole.encode)
+      )
+    );
+    MockVM.setCallContractResults([accepted, accepted]);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.transfer_and_call(
+      new token.transfer_and_call_arguments(
+        MOCK_ACCT1,
+        MOCK_ACCT2,
+        300,
+        new Uint8Array(0)
+      )
+    );
+    tkn.approve_and_call(
+      new token.approve_and_call_arguments(
+        MOCK_ACCT1,
+        MOCK_ACCT2,
+        200,
+        new Uint8Array(0)
+      )
+    );
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(300);
+    expect(
+      tkn.allowance(new token.allowance_arguments(MOCK_ACCT1, MOCK_ACCT2))
+        .value
+    ).toBe(200);
+
+    MockVM.commitTransaction();
+
+    // the receiver rejects both operations
+    const rejected = new system_calls.exit_arguments(
+      0,
+      new chain.result(
+        Protobuf.encode(new token.boole(false), token.boole.encode)
+      )
+    );
+    MockVM.setCallContractResults([rejected, rejected]);
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer_and_call(
+        new token.transfer_and_call_arguments(
+          MOCK_ACCT1,
+          MOCK_ACCT2,
+          300,
+          new Uint8Array(0)
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "receiver has rejected the transfer"
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.approve_and_call(
+        new token.approve_and_call_arguments(
+          MOCK_ACCT1,
+          MOCK_ACCT2,
+          500,
+          new Uint8Array(0)
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "spender has rejected the approval"
+    );
+
+    // the operations were reverted
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(300);
+    expect(
+      tkn.allowance(new token.allowance_arguments(MOCK_ACCT1, MOCK_ACCT2))
+        .value
+    ).toBe(200);
+
+    // the receiver is told the amount credited after the transfer fee
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_transfer_fee(new token.set_transfer_fee_arguments(100));
+    tkn.set_treasury(new token.set_treasury_arguments(CONTRACT_ID));
+    MockVM.setCallContractResults([accepted]);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.transfer_and_call(
+      new token.transfer_and_call_arguments(
+        MOCK_ACCT1,
+        MOCK_ACCT2,
+        100,
+        new Uint8Array(0)
+      )
+    );
+
+    const callback = Protobuf.decode<token.token_received_callback>(
+      lastCallArguments().args,
+      token.token_received_callback.decode
+    );
+    expect(callback.value).toBe(99);
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(399);
+  });
+
+  it("should hold, capture and release tokens", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    // hold 600 tokens until the timestamp 2000, and 300 tokens without expiration
+    const firstId = tkn.create_hold(
+      new token.create_hold_arguments(MOCK_ACCT1, MOCK_ACCT2, 600, 2000)
+    ).value;
+    const secondId = tkn.create_hold(
+      new token.create_hold_arguments(MOCK_ACCT1, MOCK_ACCT2, 300, 0)
+    ).value;
+    expect(firstId).toBe(1);
+    expect(secondId).toBe(2);
+
+    const hold = tkn.hold_of(new token.hold_of_arguments(firstId));
+    expect(Arrays.equal(hold.from, MOCK_ACCT1)).toBe(true);
+    expect(Arrays.equal(hold.beneficiary, MOCK_ACCT2)).toBe(true);
+    expect(hold.value).toBe(600);
+
+    // held tokens stay in the balance
+    const balanceArgs = new token.balance_of_arguments(MOCK_ACCT1);
+    const heldArgs = new token.held_balance_of_arguments(MOCK_ACCT1);
+    expect(tkn.balance_of(balanceArgs).value).toBe(1000);
+    expect(tkn.held_balance_of(heldArgs).value).toBe(900);
+
+    MockVM.commitTransaction();
+
+    // try to transfer and burn held tokens
+    expect(() => {
+      const tkn = new Token();
+      tkn.transfer(new token.transfer_arguments(MOCK_ACCT1, MOCK_ACCT2, 101));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "account 'from' has insufficient balance"
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.burn(new token.burn_arguments(MOCK_ACCT1, 101));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "account 'from' has insufficient balance"
+    );
+
+    // try to capture as the owner of the tokens
+    expect(() => {
+      const tkn = new Token();
+      tkn.capture_hold(new token.capture_hold_arguments(2));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "beneficiary has not authorized capture"
+    );
+
+    // capture as the beneficiary
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+    tkn.capture_hold(new token.capture_hold_arguments(secondId));
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(300);
+    expect(tkn.held_balance_of(heldArgs).value).toBe(600);
+
+    // the first hold expires
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 2000)
+      )
+    );
+
+    MockVM.commitTransaction();
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.capture_hold(new token.capture_hold_arguments(1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("hold has expired");
+
+    // anyone can release an expired hold
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_EMPTY, chain.privilege.user_mode)
+    );
+    tkn.release_hold(new token.release_hold_arguments(firstId));
+    expect(tkn.held_balance_of(heldArgs).value).toBe(0);
+    expect(tkn.hold_of(new token.hold_of_arguments(firstId)).value).toBe(0);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events[events.length - 1].name).toBe("token.hold_released");
+  });
+
+  it("should mint with the approval of the mint signers", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_mint_signers(
+      new token.set_mint_signers_arguments([MOCK_ACCT1, MOCK_ACCT2], 2)
+    );
+    expect(
+      tkn.get_mint_signers(new token.get_mint_signers_arguments()).threshold
+    ).toBe(2);
+
+    // propose as the first signer
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    const id = tkn.propose_mint(
+      new token.propose_mint_arguments(MOCK_ACCT1, SIGNER_ACCT, 500)
+    ).value;
+    expect(id).toBe(1);
+
+    const proposals = tkn.get_mint_proposals(
+      new token.get_mint_proposals_arguments(0, 10)
+    );
+    expect(proposals.value.length).toBe(1);
+    expect(proposals.value[0].value).toBe(500);
+    expect(proposals.value[0].approvals.length).toBe(1);
+
+    MockVM.commitTransaction();
+
+    // try to execute with a single approval
+    expect(() => {
+      const tkn = new Token();
+      tkn.execute_mint(new token.execute_mint_arguments(1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "mint proposal is not approved"
+    );
+
+    // try to approve twice
+    expect(() => {
+      const tkn = new Token();
+      tkn.approve_mint(new token.approve_mint_arguments(1, MOCK_ACCT1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "signer has already approved the mint"
+    );
+
+    // the minter can't mint directly anymore
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT1, 100));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "mint requires the approval of the mint signers"
+    );
+
+    // approve as the second signer and execute
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+    tkn.approve_mint(new token.approve_mint_arguments(id, MOCK_ACCT2));
+    tkn.execute_mint(new token.execute_mint_arguments(id));
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(SIGNER_ACCT)).value
+    ).toBe(500);
+    expect(
+      tkn.get_mint_proposal(new token.get_mint_proposal_arguments(id)).value
+    ).toBe(0);
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events[events.length - 1].name).toBe("token.mint_executed");
+    expect(events[events.length - 2].name).toBe("token.mint");
+  });
+
+  it("should limit minters by allowance and epoch capacity", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.grant_role(new token.grant_role_arguments(Roles.MINTER, MOCK_ACCT1));
+
+    MockVM.commitTransaction();
+
+    // a minter can't mint until it is configured
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    expect(
+      tkn.minter_allowance_of(new token.minter_allowance_of_arguments(MOCK_ACCT1))
+        .value
+    ).toBe(0);
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT2, 1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("minter is not configured");
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    // 1000 tokens in total, at most 300 per epoch of 100 blocks
+    tkn.set_minter_config(
+      new token.set_minter_config_arguments(MOCK_ACCT1, 1000, 300, 100)
+    );
+
+    // the owner is not limited
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 5000));
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 200));
+
+    const allowanceArgs = new token.minter_allowance_of_arguments(MOCK_ACCT1);
+    const capacityArgs = new token.epoch_capacity_of_arguments(MOCK_ACCT1);
+    expect(tkn.minter_allowance_of(allowanceArgs).value).toBe(800);
+    expect(tkn.epoch_capacity_of(capacityArgs).value).toBe(100);
+
+    MockVM.commitTransaction();
+
+    // try to mint more than the epoch capacity
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT2, 101));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "mint exceeds the epoch capacity"
+    );
+
+    // the capacity is restored in the next epoch
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 100, 1000)
+      )
+    );
+    expect(tkn.epoch_capacity_of(capacityArgs).value).toBe(300);
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 300));
+    expect(tkn.minter_allowance_of(allowanceArgs).value).toBe(500);
+
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 1000, 1000)
+      )
+    );
+
+    // reduce the allowance of the minter
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_minter_config(
+      new token.set_minter_config_arguments(MOCK_ACCT1, 100, 300, 100)
+    );
+
+    MockVM.commitTransaction();
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT2, 101));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "mint exceeds the minter allowance"
+    );
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(5500);
+  });
+
+  it("should deposit and withdraw an underlying token", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_underlying(new token.set_underlying_arguments(MOCK_ACCT2));
+    expect(
+      Arrays.equal(
+        tkn.get_underlying(new token.get_underlying_arguments()).value,
+        MOCK_ACCT2
+      )
+    ).toBe(true);
+
+    // the underlying transfers succeed, and the deposit checks the balance
+    // of the contract before and after the transfer
+    const transferred = new system_calls.exit_arguments(
+      0,
+      new chain.result(new Uint8Array(0))
+    );
+    MockVM.setCallContractResults([
+      underlyingBalance(0),
+      transferred,
+      underlyingBalance(1000),
+      transferred,
+    ]);
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.deposit(new token.deposit_arguments(MOCK_ACCT1, 1000));
+    tkn.withdraw(new token.withdraw_arguments(MOCK_ACCT1, 400));
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(600);
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(
+      600
+    );
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events.length).toBe(4);
+    expect(events[1].name).toBe("token.deposit");
+    expect(events[3].name).toBe("token.withdraw");
+
+    MockVM.commitTransaction();
+
+    // the supply of a wrapper only changes with deposits and withdrawals
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.mint(new token.mint_arguments(MOCK_ACCT1, 100));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "token is a wrapper, use deposit and withdraw"
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.set_underlying(new token.set_underlying_arguments(MOCK_ACCT1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "underlying can only be set while the supply is 0"
+    );
+
+    // the underlying transfer fails
+    MockVM.setCallContractResults([
+      underlyingBalance(600),
+      new system_calls.exit_arguments(
+        1,
+        new chain.result(
+          new Uint8Array(0),
+          new chain.error_data("insufficient underlying balance")
+        )
+      ),
+    ]);
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.deposit(new token.deposit_arguments(MOCK_ACCT1, 100));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "insufficient underlying balance"
+    );
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(
+      600
+    );
+
+    // only the amount received after the underlying fee is minted
+    MockVM.setCallContractResults([
+      underlyingBalance(600),
+      transferred,
+      underlyingBalance(699),
+    ]);
+    tkn.deposit(new token.deposit_arguments(MOCK_ACCT1, 100));
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(699);
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(
+      699
+    );
+  });
+
+  it("should not authorize calls to the underlying token", () => {
+    // the contract account is SIGNER_ACCT, which signed the transaction
+    MockVM.setContractId(SIGNER_ACCT);
+    MockVM.setTransaction(
+      new protocol.transaction(
+        Arrays.fromHexString(TRANSACTION_ID),
+        null,
+        [],
+        [Arrays.fromHexString(TRANSACTION_SIGNATURE)]
+      )
+    );
+    const tkn = new Token();
+
+    const underlyingCallArgs = new authority.authorize_arguments(
+      authority.authorization_type.contract_call,
+      new authority.call_data(MOCK_ACCT2, Constants.transfer_entry_point)
+    );
+    const otherCallArgs = new authority.authorize_arguments(
+      authority.authorization_type.contract_call,
+      new authority.call_data(MOCK_ACCT1, Constants.transfer_entry_point)
+    );
+    expect(tkn.authorize(underlyingCallArgs).value).toBe(true);
+
+    MockVM.setCaller(
+      new chain.caller_data(SIGNER_ACCT, chain.privilege.user_mode)
+    );
+    tkn.set_underlying(new token.set_underlying_arguments(MOCK_ACCT2));
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_EMPTY, chain.privilege.user_mode)
+    );
+
+    // the owner can't move the deposits through the underlying token
+    expect(tkn.authorize(underlyingCallArgs).value).toBe(false);
+    expect(tkn.authorize(otherCallArgs).value).toBe(true);
+  });
+
+  it("should bridge tokens out and in", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_bridge_validators(
+      new token.set_bridge_validators_arguments(
+        [VALIDATOR_ACCT1, VALIDATOR_ACCT2, VALIDATOR_ACCT3],
+        2
+      )
+    );
+    expect(
+      tkn.get_bridge_validators(new token.get_bridge_validators_arguments())
+        .threshold
+    ).toBe(2);
+
+    MockVM.commitTransaction();
+
+    // try to bridge in with a single signature
+    expect(() => {
+      const tkn = new Token();
+      tkn.bridge_in(
+        new token.bridge_in_arguments(
+          new token.bridge_attestation(
+            CONTRACT_ID,
+            ATTESTATION_ID,
+            1,
+            MOCK_ACCT1,
+            700
+          ),
+          [
+            Arrays.fromHexString(ATTESTATION_SIGNATURE1),
+            Arrays.fromHexString(ATTESTATION_SIGNATURE1),
+          ]
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "attestation is not signed by enough validators"
+    );
+
+    // bridge in with two validators
+    tkn.bridge_in(
+      new token.bridge_in_arguments(
+        new token.bridge_attestation(
+          CONTRACT_ID,
+          ATTESTATION_ID,
+          1,
+          MOCK_ACCT1,
+          700
+        ),
+        [
+          Arrays.fromHexString(ATTESTATION_SIGNATURE3),
+          Arrays.fromHexString(ATTESTATION_SIGNATURE2),
+        ]
+      )
+    );
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(700);
+    expect(
+      tkn.is_attestation_processed(
+        new token.is_attestation_processed_arguments(ATTESTATION_ID)
+      ).value
+    ).toBe(true);
+
+    MockVM.commitTransaction();
+
+    // try to replay the attestation
+    expect(() => {
+      const tkn = new Token();
+      tkn.bridge_in(
+        new token.bridge_in_arguments(
+          new token.bridge_attestation(
+            CONTRACT_ID,
+            ATTESTATION_ID,
+            1,
+            MOCK_ACCT1,
+            700
+          ),
+          [
+            Arrays.fromHexString(ATTESTATION_SIGNATURE1),
+            Arrays.fromHexString(ATTESTATION_SIGNATURE2),
+          ]
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "attestation has already been processed"
+    );
+
+    // bridge out
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    const id = tkn.bridge_out(
+      new token.bridge_out_arguments(MOCK_ACCT1, 200, 2, MOCK_ACCT2)
+    ).value;
+    expect(id).toBe(1);
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(500);
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(
+      500
+    );
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events[events.length - 1].name).toBe("token.bridge_out");
+    expect(events[events.length - 2].name).toBe("token.burn");
+    const bridgeOutEvent = Protobuf.decode<token.bridge_out_event>(
+      events[events.length - 1].data!,
+      token.bridge_out_event.decode
+    );
+    expect(bridgeOutEvent.destination_chain).toBe(2);
+    expect(Arrays.equal(bridgeOutEvent.recipient, MOCK_ACCT2)).toBe(true);
+  });
+
+  it("should not bridge in while mint signers are set", () => {
+    const tkn = new Token();
+
+    // the bridge is enabled before the mint signers are set
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_bridge_validators(
+      new token.set_bridge_validators_arguments(
+        [VALIDATOR_ACCT1, VALIDATOR_ACCT2, VALIDATOR_ACCT3],
+        2
+      )
+    );
+    tkn.set_mint_signers(
+      new token.set_mint_signers_arguments([MOCK_ACCT1, MOCK_ACCT2], 2)
+    );
+
+    MockVM.commitTransaction();
+
+    // the validators could mint without the approval of the mint signers
+    expect(() => {
+      const tkn = new Token();
+      tkn.bridge_in(
+        new token.bridge_in_arguments(
+          new token.bridge_attestation(
+            CONTRACT_ID,
+            ATTESTATION_ID,
+            1,
+            MOCK_ACCT1,
+            700
+          ),
+          [
+            Arrays.fromHexString(ATTESTATION_SIGNATURE3),
+            Arrays.fromHexString(ATTESTATION_SIGNATURE2),
+          ]
+        )
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "mint requires the approval of the mint signers"
+    );
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(0);
+
+    // the owner can still disable the bridge
+    tkn.set_bridge_validators(
+      new token.set_bridge_validators_arguments([], 0)
+    );
+    expect(
+      tkn.get_bridge_validators(new token.get_bridge_validators_arguments())
+        .threshold
+    ).toBe(0);
+  });
+
+  it("should stake tokens and distribute rewards", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 1000));
+    tkn.set_stake_cooldown(new token.set_stake_cooldown_arguments(100));
+    tkn.set_reward_duration(new token.set_reward_duration_arguments(100));
+
+    // stake 300 and 100 tokens
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.stake(new token.stake_arguments(MOCK_ACCT1, 300));
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+    tkn.stake(new token.stake_arguments(MOCK_ACCT2, 100));
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(700);
+    expect(
+      tkn.staked_of(new token.staked_of_arguments(MOCK_ACCT1)).value
+    ).toBe(300);
+    expect(
+      tkn.get_staking_info(new token.get_staking_info_arguments()).total_staked
+    ).toBe(400);
+
+    // distribute 400 tokens of rewards over 100 milliseconds
+    tkn.notify_reward_amount(
+      new token.notify_reward_amount_arguments(MOCK_ACCT2, 400)
+    );
+
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT1)).value
+    ).toBe(0);
+
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 10, 1050)
+      )
+    );
+
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT1)).value
+    ).toBe(150);
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT2)).value
+    ).toBe(50);
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(500);
+
+    MockVM.commitTransaction();
+
+    // try to unstake before the cooldown
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.unstake(new token.unstake_arguments(MOCK_ACCT1, 300));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "unstake cooldown has not elapsed"
+    );
+
+    // unstake after the cooldown and claim the rewards
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 11, 1100)
+      )
+    );
+    tkn.unstake(new token.unstake_arguments(MOCK_ACCT1, 300));
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(1000);
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT1)).value
+    ).toBe(300);
+
+    const claimed = tkn.claim_rewards(
+      new token.claim_rewards_arguments(MOCK_ACCT1)
+    ).value;
+    expect(claimed).toBe(300);
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(1300);
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT1)).value
+    ).toBe(0);
+    expect(
+      tkn.get_staking_info(new token.get_staking_info_arguments()).reward_pool
+    ).toBe(100);
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(
+      2000
+    );
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events[events.length - 1].name).toBe("token.rewards_claimed");
+    expect(events[events.length - 2].name).toBe("token.unstaked");
+  });
+
+  it("should distribute rewards over the reward duration", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+    tkn.mint(new token.mint_arguments(MOCK_ACCT2, 1000));
+    tkn.set_reward_duration(new token.set_reward_duration_arguments(1000));
+
+    // MOCK_ACCT1 stakes 100 tokens and distributes 400 tokens over 1000 milliseconds
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.stake(new token.stake_arguments(MOCK_ACCT1, 100));
+    tkn.notify_reward_amount(
+      new token.notify_reward_amount_arguments(MOCK_ACCT1, 400)
+    );
+
+    // staking right before the notification and leaving earns nothing
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT2, chain.privilege.user_mode)
+    );
+    tkn.stake(new token.stake_arguments(MOCK_ACCT2, 100));
+    expect(
+      tkn.claim_rewards(new token.claim_rewards_arguments(MOCK_ACCT2)).value
+    ).toBe(0);
+    tkn.unstake(new token.unstake_arguments(MOCK_ACCT2, 100));
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(1000);
+
+    // half of the rewards are distributed after half of the duration
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 15, 1500)
+      )
+    );
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT1)).value
+    ).toBe(200);
+    tkn.stake(new token.stake_arguments(MOCK_ACCT2, 100));
+
+    // the other half is shared by both stakers
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 30, 3000)
+      )
+    );
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT1)).value
+    ).toBe(300);
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT2)).value
+    ).toBe(100);
+
+    const staking = tkn.get_staking_info(new token.get_staking_info_arguments());
+    expect(staking.reward_remaining).toBe(0);
+    expect(staking.reward_pool).toBe(400);
+  });
+
+  it("should not unstake or claim rewards to frozen accounts", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.mint(new token.mint_arguments(MOCK_ACCT1, 1000));
+    tkn.set_reward_duration(new token.set_reward_duration_arguments(100));
+
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+    tkn.stake(new token.stake_arguments(MOCK_ACCT1, 300));
+    tkn.notify_reward_amount(
+      new token.notify_reward_amount_arguments(MOCK_ACCT1, 300)
+    );
+    MockVM.setBlock(
+      new protocol.block(
+        new Uint8Array(0),
+        new protocol.block_header(new Uint8Array(0), 11, 1100)
+      )
+    );
+
+    // freeze MOCK_ACCT1
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.freeze_account(new token.freeze_account_arguments(MOCK_ACCT1));
+
+    MockVM.commitTransaction();
+
+    // try to unstake and claim the rewards
+    MockVM.setCaller(
+      new chain.caller_data(MOCK_ACCT1, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.unstake(new token.unstake_arguments(MOCK_ACCT1, 300));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("account 'to' is frozen");
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.claim_rewards(new token.claim_rewards_arguments(MOCK_ACCT1));
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("account 'to' is frozen");
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT1)).value
+    ).toBe(400);
+    expect(
+      tkn.staked_of(new token.staked_of_arguments(MOCK_ACCT1)).value
+    ).toBe(300);
+    expect(
+      tkn.earned_of(new token.earned_of_arguments(MOCK_ACCT1)).value
+    ).toBe(300);
+  });
+
+  it("should claim an airdrop with a Merkle proof", () => {
+    const tkn = new Token();
+
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_airdrop_root(
+      new token.set_airdrop_root_arguments(
+        Arrays.fromHexString(AIRDROP_ROOT),
+        1000
+      )
+    );
+
+    MockVM.commitTransaction();
+
+    // try to claim a different amount
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_EMPTY, chain.privilege.user_mode)
+    );
+
+    expect(() => {
+      const tkn = new Token();
+      tkn.claim_airdrop(
+        new token.claim_airdrop_arguments(1, MOCK_ACCT2, 201, [
+          Arrays.fromHexString(AIRDROP_PROOF1),
+          Arrays.fromHexString(AIRDROP_PROOF2),
+        ])
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual("invalid airdrop proof");
+
+    // claim the leaf
+    tkn.claim_airdrop(
+      new token.claim_airdrop_arguments(1, MOCK_ACCT2, 200, [
+        Arrays.fromHexString(AIRDROP_PROOF1),
+        Arrays.fromHexString(AIRDROP_PROOF2),
+      ])
+    );
+
+    expect(
+      tkn.balance_of(new token.balance_of_arguments(MOCK_ACCT2)).value
+    ).toBe(200);
+    expect(tkn.is_claimed(new token.is_claimed_arguments(1)).value).toBe(true);
+    expect(tkn.is_claimed(new token.is_claimed_arguments(0)).value).toBe(false);
+    expect(tkn.get_airdrop(new token.get_airdrop_arguments()).claimed).toBe(
+      200
+    );
+
+    MockVM.commitTransaction();
+
+    // try to claim twice
+    expect(() => {
+      const tkn = new Token();
+      tkn.claim_airdrop(
+        new token.claim_airdrop_arguments(1, MOCK_ACCT2, 200, [
+          Arrays.fromHexString(AIRDROP_PROOF1),
+          Arrays.fromHexString(AIRDROP_PROOF2),
+        ])
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "airdrop has already been claimed"
+    );
+
+    // check events
+    const events = MockVM.getEvents();
+    expect(events[events.length - 1].name).toBe("token.airdrop_claimed");
+    expect(events[events.length - 2].name).toBe("token.mint");
+  });
+
+  it("should not claim an airdrop while mint signers are set", () => {
+    const tkn = new Token();
+
+    // the airdrop is set before the mint signers
+    MockVM.setCaller(
+      new chain.caller_data(CONTRACT_ID, chain.privilege.user_mode)
+    );
+    tkn.set_airdrop_root(
+      new token.set_airdrop_root_arguments(
+        Arrays.fromHexString(AIRDROP_ROOT),
+        1000
+      )
+    );
+    tkn.set_mint_signers(
+      new token.set_mint_signers_arguments([MOCK_ACCT1, MOCK_ACCT2], 2)
+    );
+
+    MockVM.commitTransaction();
+
+    // the claims would mint without the approval of the mint signers
+    expect(() => {
+      const tkn = new Token();
+      tkn.claim_airdrop(
+        new token.claim_airdrop_arguments(1, MOCK_ACCT2, 200, [
+          Arrays.fromHexString(AIRDROP_PROOF1),
+          Arrays.fromHexString(AIRDROP_PROOF2),
+        ])
+      );
+    }).toThrow();
+
+    expect(MockVM.getErrorMessage()).toStrictEqual(
+      "mint requires the approval of the mint signers"
+    );
+    expect(tkn.total_supply(new token.total_supply_arguments()).value).toBe(0);
+  });
 });
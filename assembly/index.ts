@@ -9,6 +9,16 @@ export function main(): i32 {
   const c = new ContractClass();
 
   switch (contractArgs.entry_point) {
+    case 0x4a2dbd90: {
+      const args = Protobuf.decode<authority.authorize_arguments>(
+        contractArgs.args,
+        authority.authorize_arguments.decode
+      );
+      const res = c.authorize(args);
+      retbuf = Protobuf.encode(res, authority.authorize_result.encode);
+      break;
+    }
+
     case 0x82a3537f: {
       const args = Protobuf.decode<ProtoNamespace.name_arguments>(
         contractArgs.args,
@@ -69,6 +79,26 @@ export function main(): i32 {
       break;
     }
 
+    case 0xfccf735c: {
+      const args = Protobuf.decode<ProtoNamespace.balance_of_at_arguments>(
+        contractArgs.args,
+        ProtoNamespace.balance_of_at_arguments.decode
+      );
+      const res = c.balance_of_at(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x0a6f7185: {
+      const args = Protobuf.decode<ProtoNamespace.total_supply_at_arguments>(
+        contractArgs.args,
+        ProtoNamespace.total_supply_at_arguments.decode
+      );
+      const res = c.total_supply_at(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
     case 0x32f09fa1: {
       const args = Protobuf.decode<ProtoNamespace.allowance_arguments>(
         contractArgs.args,
@@ -79,6 +109,26 @@ export function main(): i32 {
       break;
     }
 
+    case 0x1c73a2b3: {
+      const args = Protobuf.decode<ProtoNamespace.get_holders_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_holders_arguments.decode
+      );
+      const res = c.get_holders(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.holder_list.encode);
+      break;
+    }
+
+    case 0x8fa16456: {
+      const args = Protobuf.decode<ProtoNamespace.get_allowances_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_allowances_arguments.decode
+      );
+      const res = c.get_allowances(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.allowance_list.encode);
+      break;
+    }
+
     case 0xdc6f17bb: {
       const args = Protobuf.decode<ProtoNamespace.mint_arguments>(
         contractArgs.args,
@@ -119,6 +169,804 @@ export function main(): i32 {
       break;
     }
 
+    case 0x21fbbda9: {
+      const args = Protobuf.decode<ProtoNamespace.increase_allowance_arguments>(
+        contractArgs.args,
+        ProtoNamespace.increase_allowance_arguments.decode
+      );
+      const res = c.increase_allowance(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xaffa45e6: {
+      const args = Protobuf.decode<ProtoNamespace.decrease_allowance_arguments>(
+        contractArgs.args,
+        ProtoNamespace.decrease_allowance_arguments.decode
+      );
+      const res = c.decrease_allowance(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x7822da39: {
+      const args = Protobuf.decode<ProtoNamespace.grant_role_arguments>(
+        contractArgs.args,
+        ProtoNamespace.grant_role_arguments.decode
+      );
+      const res = c.grant_role(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xbad16a96: {
+      const args = Protobuf.decode<ProtoNamespace.revoke_role_arguments>(
+        contractArgs.args,
+        ProtoNamespace.revoke_role_arguments.decode
+      );
+      const res = c.revoke_role(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xf8775fc5: {
+      const args = Protobuf.decode<ProtoNamespace.renounce_role_arguments>(
+        contractArgs.args,
+        ProtoNamespace.renounce_role_arguments.decode
+      );
+      const res = c.renounce_role(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x6a67eb35: {
+      const args = Protobuf.decode<ProtoNamespace.has_role_arguments>(
+        contractArgs.args,
+        ProtoNamespace.has_role_arguments.decode
+      );
+      const res = c.has_role(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.boole.encode);
+      break;
+    }
+
+    case 0x6210c0bf: {
+      const args = Protobuf.decode<ProtoNamespace.pause_arguments>(
+        contractArgs.args,
+        ProtoNamespace.pause_arguments.decode
+      );
+      const res = c.pause(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x6d934063: {
+      const args = Protobuf.decode<ProtoNamespace.unpause_arguments>(
+        contractArgs.args,
+        ProtoNamespace.unpause_arguments.decode
+      );
+      const res = c.unpause(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xa6687dfe: {
+      const args = Protobuf.decode<ProtoNamespace.is_paused_arguments>(
+        contractArgs.args,
+        ProtoNamespace.is_paused_arguments.decode
+      );
+      const res = c.is_paused(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.boole.encode);
+      break;
+    }
+
+    case 0x6f03a816: {
+      const args = Protobuf.decode<ProtoNamespace.freeze_account_arguments>(
+        contractArgs.args,
+        ProtoNamespace.freeze_account_arguments.decode
+      );
+      const res = c.freeze_account(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x5263661e: {
+      const args = Protobuf.decode<ProtoNamespace.unfreeze_account_arguments>(
+        contractArgs.args,
+        ProtoNamespace.unfreeze_account_arguments.decode
+      );
+      const res = c.unfreeze_account(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x76594b5e: {
+      const args = Protobuf.decode<ProtoNamespace.is_frozen_arguments>(
+        contractArgs.args,
+        ProtoNamespace.is_frozen_arguments.decode
+      );
+      const res = c.is_frozen(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.boole.encode);
+      break;
+    }
+
+    case 0x85441a43: {
+      const args = Protobuf.decode<ProtoNamespace.permit_arguments>(
+        contractArgs.args,
+        ProtoNamespace.permit_arguments.decode
+      );
+      const res = c.permit(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x83641426: {
+      const args = Protobuf.decode<ProtoNamespace.nonce_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.nonce_of_arguments.decode
+      );
+      const res = c.nonce_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0xd91113a8: {
+      const args =
+        Protobuf.decode<ProtoNamespace.transfer_with_signature_arguments>(
+          contractArgs.args,
+          ProtoNamespace.transfer_with_signature_arguments.decode
+        );
+      const res = c.transfer_with_signature(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x844775d7: {
+      const args = Protobuf.decode<ProtoNamespace.batch_transfer_arguments>(
+        contractArgs.args,
+        ProtoNamespace.batch_transfer_arguments.decode
+      );
+      const res = c.batch_transfer(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x6f216e33: {
+      const args = Protobuf.decode<ProtoNamespace.delegate_arguments>(
+        contractArgs.args,
+        ProtoNamespace.delegate_arguments.decode
+      );
+      const res = c.delegate(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xcd415ed4: {
+      const args =
+        Protobuf.decode<ProtoNamespace.delegate_by_signature_arguments>(
+          contractArgs.args,
+          ProtoNamespace.delegate_by_signature_arguments.decode
+        );
+      const res = c.delegate_by_signature(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x39e6048d: {
+      const args = Protobuf.decode<ProtoNamespace.delegates_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.delegates_of_arguments.decode
+      );
+      const res = c.delegates_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.address.encode);
+      break;
+    }
+
+    case 0xe483d76f: {
+      const args = Protobuf.decode<ProtoNamespace.get_votes_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_votes_arguments.decode
+      );
+      const res = c.get_votes(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x4be3182c: {
+      const args = Protobuf.decode<ProtoNamespace.get_past_votes_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_past_votes_arguments.decode
+      );
+      const res = c.get_past_votes(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x31b1f927: {
+      const args = Protobuf.decode<ProtoNamespace.create_vesting_arguments>(
+        contractArgs.args,
+        ProtoNamespace.create_vesting_arguments.decode
+      );
+      const res = c.create_vesting(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xa4d451ec: {
+      const args = Protobuf.decode<ProtoNamespace.release_arguments>(
+        contractArgs.args,
+        ProtoNamespace.release_arguments.decode
+      );
+      const res = c.release(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x777ac4ea: {
+      const args = Protobuf.decode<ProtoNamespace.revoke_arguments>(
+        contractArgs.args,
+        ProtoNamespace.revoke_arguments.decode
+      );
+      const res = c.revoke(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x5e140157: {
+      const args = Protobuf.decode<ProtoNamespace.vesting_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.vesting_of_arguments.decode
+      );
+      const res = c.vesting_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.vesting.encode);
+      break;
+    }
+
+    case 0x8b030431: {
+      const args = Protobuf.decode<ProtoNamespace.releasable_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.releasable_of_arguments.decode
+      );
+      const res = c.releasable_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x29ebd93f: {
+      const args = Protobuf.decode<ProtoNamespace.get_fee_config_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_fee_config_arguments.decode
+      );
+      const res = c.get_fee_config(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.fee_config.encode);
+      break;
+    }
+
+    case 0xdaeda8a7: {
+      const args = Protobuf.decode<ProtoNamespace.is_fee_exempt_arguments>(
+        contractArgs.args,
+        ProtoNamespace.is_fee_exempt_arguments.decode
+      );
+      const res = c.is_fee_exempt(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.boole.encode);
+      break;
+    }
+
+    case 0xd68abe95: {
+      const args = Protobuf.decode<ProtoNamespace.set_transfer_fee_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_transfer_fee_arguments.decode
+      );
+      const res = c.set_transfer_fee(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xe6a012a6: {
+      const args = Protobuf.decode<ProtoNamespace.set_treasury_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_treasury_arguments.decode
+      );
+      const res = c.set_treasury(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x1828af08: {
+      const args = Protobuf.decode<ProtoNamespace.set_fee_exempt_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_fee_exempt_arguments.decode
+      );
+      const res = c.set_fee_exempt(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x470ebe82: {
+      const args = Protobuf.decode<ProtoNamespace.initialize_arguments>(
+        contractArgs.args,
+        ProtoNamespace.initialize_arguments.decode
+      );
+      const res = c.initialize(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x4c102969: {
+      const args = Protobuf.decode<ProtoNamespace.owner_arguments>(
+        contractArgs.args,
+        ProtoNamespace.owner_arguments.decode
+      );
+      const res = c.owner(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.address.encode);
+      break;
+    }
+
+    case 0xcd70f167: {
+      const args = Protobuf.decode<ProtoNamespace.pending_owner_arguments>(
+        contractArgs.args,
+        ProtoNamespace.pending_owner_arguments.decode
+      );
+      const res = c.pending_owner(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.address.encode);
+      break;
+    }
+
+    case 0x394be702: {
+      const args = Protobuf.decode<ProtoNamespace.transfer_ownership_arguments>(
+        contractArgs.args,
+        ProtoNamespace.transfer_ownership_arguments.decode
+      );
+      const res = c.transfer_ownership(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x0c996c15: {
+      const args = Protobuf.decode<ProtoNamespace.accept_ownership_arguments>(
+        contractArgs.args,
+        ProtoNamespace.accept_ownership_arguments.decode
+      );
+      const res = c.accept_ownership(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x0ac0d145: {
+      const args = Protobuf.decode<ProtoNamespace.renounce_ownership_arguments>(
+        contractArgs.args,
+        ProtoNamespace.renounce_ownership_arguments.decode
+      );
+      const res = c.renounce_ownership(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xbf64d2fc: {
+      const args = Protobuf.decode<ProtoNamespace.get_flash_fee_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_flash_fee_arguments.decode
+      );
+      const res = c.get_flash_fee(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint32.encode);
+      break;
+    }
+
+    case 0x018c4930: {
+      const args = Protobuf.decode<ProtoNamespace.set_flash_fee_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_flash_fee_arguments.decode
+      );
+      const res = c.set_flash_fee(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x7ef87a8b: {
+      const args = Protobuf.decode<ProtoNamespace.flash_mint_arguments>(
+        contractArgs.args,
+        ProtoNamespace.flash_mint_arguments.decode
+      );
+      const res = c.flash_mint(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x82045ea2: {
+      const args = Protobuf.decode<ProtoNamespace.transfer_and_call_arguments>(
+        contractArgs.args,
+        ProtoNamespace.transfer_and_call_arguments.decode
+      );
+      const res = c.transfer_and_call(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x8388a4c9: {
+      const args = Protobuf.decode<ProtoNamespace.approve_and_call_arguments>(
+        contractArgs.args,
+        ProtoNamespace.approve_and_call_arguments.decode
+      );
+      const res = c.approve_and_call(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x8b8dbef2: {
+      const args = Protobuf.decode<ProtoNamespace.hold_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.hold_of_arguments.decode
+      );
+      const res = c.hold_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.hold.encode);
+      break;
+    }
+
+    case 0xde9ea43a: {
+      const args = Protobuf.decode<ProtoNamespace.held_balance_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.held_balance_of_arguments.decode
+      );
+      const res = c.held_balance_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x0dc7aad3: {
+      const args = Protobuf.decode<ProtoNamespace.create_hold_arguments>(
+        contractArgs.args,
+        ProtoNamespace.create_hold_arguments.decode
+      );
+      const res = c.create_hold(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x3cc83bad: {
+      const args = Protobuf.decode<ProtoNamespace.capture_hold_arguments>(
+        contractArgs.args,
+        ProtoNamespace.capture_hold_arguments.decode
+      );
+      const res = c.capture_hold(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xf5e5d659: {
+      const args = Protobuf.decode<ProtoNamespace.release_hold_arguments>(
+        contractArgs.args,
+        ProtoNamespace.release_hold_arguments.decode
+      );
+      const res = c.release_hold(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xe31e43d0: {
+      const args = Protobuf.decode<ProtoNamespace.get_mint_signers_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_mint_signers_arguments.decode
+      );
+      const res = c.get_mint_signers(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.mint_signers.encode);
+      break;
+    }
+
+    case 0x7ac3eb4e: {
+      const args = Protobuf.decode<ProtoNamespace.get_mint_proposal_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_mint_proposal_arguments.decode
+      );
+      const res = c.get_mint_proposal(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.mint_proposal.encode);
+      break;
+    }
+
+    case 0x6968b4fd: {
+      const args = Protobuf.decode<ProtoNamespace.get_mint_proposals_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_mint_proposals_arguments.decode
+      );
+      const res = c.get_mint_proposals(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.mint_proposal_list.encode);
+      break;
+    }
+
+    case 0x0d519b75: {
+      const args = Protobuf.decode<ProtoNamespace.set_mint_signers_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_mint_signers_arguments.decode
+      );
+      const res = c.set_mint_signers(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xcdd29205: {
+      const args = Protobuf.decode<ProtoNamespace.propose_mint_arguments>(
+        contractArgs.args,
+        ProtoNamespace.propose_mint_arguments.decode
+      );
+      const res = c.propose_mint(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x01dc1004: {
+      const args = Protobuf.decode<ProtoNamespace.approve_mint_arguments>(
+        contractArgs.args,
+        ProtoNamespace.approve_mint_arguments.decode
+      );
+      const res = c.approve_mint(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xe80c31fd: {
+      const args = Protobuf.decode<ProtoNamespace.execute_mint_arguments>(
+        contractArgs.args,
+        ProtoNamespace.execute_mint_arguments.decode
+      );
+      const res = c.execute_mint(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xfafa9474: {
+      const args =
+        Protobuf.decode<ProtoNamespace.minter_allowance_of_arguments>(
+          contractArgs.args,
+          ProtoNamespace.minter_allowance_of_arguments.decode
+        );
+      const res = c.minter_allowance_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x156e8f15: {
+      const args = Protobuf.decode<ProtoNamespace.epoch_capacity_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.epoch_capacity_of_arguments.decode
+      );
+      const res = c.epoch_capacity_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x49eefb17: {
+      const args = Protobuf.decode<ProtoNamespace.set_minter_config_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_minter_config_arguments.decode
+      );
+      const res = c.set_minter_config(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x853ecd21: {
+      const args = Protobuf.decode<ProtoNamespace.get_underlying_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_underlying_arguments.decode
+      );
+      const res = c.get_underlying(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.address.encode);
+      break;
+    }
+
+    case 0x2170806e: {
+      const args = Protobuf.decode<ProtoNamespace.set_underlying_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_underlying_arguments.decode
+      );
+      const res = c.set_underlying(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xc3b9fb78: {
+      const args = Protobuf.decode<ProtoNamespace.deposit_arguments>(
+        contractArgs.args,
+        ProtoNamespace.deposit_arguments.decode
+      );
+      const res = c.deposit(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xc26f22db: {
+      const args = Protobuf.decode<ProtoNamespace.withdraw_arguments>(
+        contractArgs.args,
+        ProtoNamespace.withdraw_arguments.decode
+      );
+      const res = c.withdraw(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xa7089ca7: {
+      const args =
+        Protobuf.decode<ProtoNamespace.get_bridge_validators_arguments>(
+          contractArgs.args,
+          ProtoNamespace.get_bridge_validators_arguments.decode
+        );
+      const res = c.get_bridge_validators(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.bridge_validators.encode);
+      break;
+    }
+
+    case 0x00bcc850: {
+      const args =
+        Protobuf.decode<ProtoNamespace.is_attestation_processed_arguments>(
+          contractArgs.args,
+          ProtoNamespace.is_attestation_processed_arguments.decode
+        );
+      const res = c.is_attestation_processed(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.boole.encode);
+      break;
+    }
+
+    case 0xb5952a29: {
+      const args =
+        Protobuf.decode<ProtoNamespace.set_bridge_validators_arguments>(
+          contractArgs.args,
+          ProtoNamespace.set_bridge_validators_arguments.decode
+        );
+      const res = c.set_bridge_validators(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xb2fadef7: {
+      const args = Protobuf.decode<ProtoNamespace.bridge_out_arguments>(
+        contractArgs.args,
+        ProtoNamespace.bridge_out_arguments.decode
+      );
+      const res = c.bridge_out(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x05d100ac: {
+      const args = Protobuf.decode<ProtoNamespace.bridge_in_arguments>(
+        contractArgs.args,
+        ProtoNamespace.bridge_in_arguments.decode
+      );
+      const res = c.bridge_in(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xa9d381f9: {
+      const args = Protobuf.decode<ProtoNamespace.get_staking_info_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_staking_info_arguments.decode
+      );
+      const res = c.get_staking_info(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.staking_info.encode);
+      break;
+    }
+
+    case 0x18d045e3: {
+      const args = Protobuf.decode<ProtoNamespace.staked_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.staked_of_arguments.decode
+      );
+      const res = c.staked_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x70dbcf7e: {
+      const args = Protobuf.decode<ProtoNamespace.earned_of_arguments>(
+        contractArgs.args,
+        ProtoNamespace.earned_of_arguments.decode
+      );
+      const res = c.earned_of(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x117e9305: {
+      const args = Protobuf.decode<ProtoNamespace.set_stake_cooldown_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_stake_cooldown_arguments.decode
+      );
+      const res = c.set_stake_cooldown(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xdbdc4fa8: {
+      const args =
+        Protobuf.decode<ProtoNamespace.set_reward_duration_arguments>(
+          contractArgs.args,
+          ProtoNamespace.set_reward_duration_arguments.decode
+        );
+      const res = c.set_reward_duration(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xf4caf4ff: {
+      const args = Protobuf.decode<ProtoNamespace.stake_arguments>(
+        contractArgs.args,
+        ProtoNamespace.stake_arguments.decode
+      );
+      const res = c.stake(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x453c505b: {
+      const args = Protobuf.decode<ProtoNamespace.unstake_arguments>(
+        contractArgs.args,
+        ProtoNamespace.unstake_arguments.decode
+      );
+      const res = c.unstake(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x89f9122f: {
+      const args = Protobuf.decode<ProtoNamespace.claim_rewards_arguments>(
+        contractArgs.args,
+        ProtoNamespace.claim_rewards_arguments.decode
+      );
+      const res = c.claim_rewards(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.uint64.encode);
+      break;
+    }
+
+    case 0x8732d5d3: {
+      const args =
+        Protobuf.decode<ProtoNamespace.notify_reward_amount_arguments>(
+          contractArgs.args,
+          ProtoNamespace.notify_reward_amount_arguments.decode
+        );
+      const res = c.notify_reward_amount(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0x4bac8668: {
+      const args = Protobuf.decode<ProtoNamespace.get_airdrop_arguments>(
+        contractArgs.args,
+        ProtoNamespace.get_airdrop_arguments.decode
+      );
+      const res = c.get_airdrop(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.airdrop.encode);
+      break;
+    }
+
+    case 0xef2a227e: {
+      const args = Protobuf.decode<ProtoNamespace.is_claimed_arguments>(
+        contractArgs.args,
+        ProtoNamespace.is_claimed_arguments.decode
+      );
+      const res = c.is_claimed(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.boole.encode);
+      break;
+    }
+
+    case 0xe7af01c5: {
+      const args = Protobuf.decode<ProtoNamespace.set_airdrop_root_arguments>(
+        contractArgs.args,
+        ProtoNamespace.set_airdrop_root_arguments.decode
+      );
+      const res = c.set_airdrop_root(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
+    case 0xed10c904: {
+      const args = Protobuf.decode<ProtoNamespace.claim_airdrop_arguments>(
+        contractArgs.args,
+        ProtoNamespace.claim_airdrop_arguments.decode
+      );
+      const res = c.claim_airdrop(args);
+      retbuf = Protobuf.encode(res, ProtoNamespace.empty_object.encode);
+      break;
+    }
+
     default:
       System.exit(1);
       break;
@@ -23,8 +23,12 @@ async function main() {
     bytecode
   });
 
+  // the authorize entry point of the contract decides who can upgrade it
+  // and call other contracts on its behalf
   const { operation, transaction, receipt } = await bridgeContract.deploy({
-    abi: fs.readFileSync(path.resolve(__dirname, '../abi/token.abi')).toString()
+    abi: fs.readFileSync(path.resolve(__dirname, '../abi/token.abi')).toString(),
+    authorizesCallContract: true,
+    authorizesUploadContract: true
   });
   console.log(transaction)
   console.log(receipt)